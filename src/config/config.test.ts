@@ -68,6 +68,100 @@ describe('Configuration System', () => {
     });
   });
 
+  describe('Project config (.shemcp.toml)', () => {
+    const files: Record<string, string> = {};
+
+    beforeEach(() => {
+      for (const key of Object.keys(files)) delete files[key];
+      mockFs.existsSync.mockImplementation((p) => String(p) in files);
+      mockFs.readFileSync.mockImplementation(((p: any) => files[String(p)]) as any);
+      mockFs.statSync.mockReturnValue({ mode: 0o100644 } as any);
+      mockFs.realpathSync.mockImplementation(((p: any) => String(p)) as any);
+    });
+
+    const projectToml = `
+[commands]
+allow = ["^terraform(\\\\s|$)"]
+deny = ["^terraform\\\\s+destroy"]
+ask = ["^terraform\\\\s+apply"]
+
+[[commands.rules]]
+action = "allow"
+executable = "curl"
+
+[[commands.rules]]
+action = "ask"
+executable = "terraform"
+
+[[commands.rules]]
+action = "deny"
+executable = "git"
+subcommand = ["push"]
+required_flags = ["--force"]
+
+[limits]
+timeout_seconds = 60
+max_output_bytes = 9000000
+
+[environment]
+whitelist = ["PATH", "TF_VAR_region"]
+
+[security]
+trusted_projects = ["/repo"]
+`;
+
+    it('should ignore a missing project config', () => {
+      const config = ConfigLoader.loadConfig('/repo');
+      expect(config.commands.deny).toEqual(DEFAULT_CONFIG.commands.deny);
+    });
+
+    it('should only tighten policy for untrusted projects', () => {
+      files['/repo/.shemcp.toml'] = projectToml;
+      const config = ConfigLoader.loadConfig('/repo');
+
+      expect(config.commands.allow).toEqual(DEFAULT_CONFIG.commands.allow);
+      expect(config.commands.deny).toEqual([...DEFAULT_CONFIG.commands.deny, '^terraform\\s+destroy']);
+      // An approved ask would run commands the user never allowed
+      expect(config.commands.ask).toEqual(DEFAULT_CONFIG.commands.ask);
+      expect(config.commands.rules.map(r => r.action)).toEqual(['deny']);
+      expect(config.limits.timeout_seconds).toBe(60);
+      expect(config.limits.max_output_bytes).toBe(DEFAULT_CONFIG.limits.max_output_bytes);
+      expect(config.environment.whitelist).toEqual(['PATH']);
+      // A project cannot trust itself
+      expect(config.security.trusted_projects).toEqual([]);
+    });
+
+    it('should let trusted projects widen policy', () => {
+      files['/home/testuser/.config/shemcp/config.toml'] = '[security]\ntrusted_projects = ["/repo"]\n';
+      files['/repo/.shemcp.toml'] = projectToml;
+      const config = ConfigLoader.loadConfig('/repo');
+
+      expect(config.commands.allow).toEqual([...DEFAULT_CONFIG.commands.allow, '^terraform(\\s|$)']);
+      expect(config.commands.ask).toEqual([...DEFAULT_CONFIG.commands.ask, '^terraform\\s+apply']);
+      expect(config.commands.rules.map(r => r.action)).toEqual(['allow', 'ask', 'deny']);
+      expect(config.limits.max_output_bytes).toBe(9_000_000);
+      expect(config.environment.whitelist).toEqual([...DEFAULT_CONFIG.environment.whitelist, 'TF_VAR_region']);
+    });
+
+    it('should fall back to the user config when the project config is invalid', () => {
+      files['/repo/.shemcp.toml'] = '[limits]\ntimeout_seconds = "forever"\n';
+      const config = ConfigLoader.loadConfig('/repo');
+      expect(config.limits.timeout_seconds).toBe(DEFAULT_CONFIG.limits.timeout_seconds);
+    });
+
+    it('should fall back to the user config when a project pattern does not compile', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      for (const toml of ['[commands]\ndeny = ["^terraform("]\n', '[summary]\nerror_patterns = ["[unclosed"]\n']) {
+        files['/repo/.shemcp.toml'] = toml;
+        const config = ConfigLoader.loadConfig('/repo');
+        expect(config.commands.deny).toEqual(DEFAULT_CONFIG.commands.deny);
+        expect(config.summary).toEqual(DEFAULT_CONFIG.summary);
+      }
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid regular expression'));
+      warn.mockRestore();
+    });
+  });
+
   describe('Configuration Schema', () => {
     it('should provide reasonable defaults', () => {
       const defaults = DEFAULT_CONFIG;
@@ -1,3 +1,4 @@
 export type { Config } from "./schema.js";
-export { ConfigSchema, DEFAULT_CONFIG } from "./schema.js";
-export { ConfigLoader } from "./loader.js";
\ No newline at end of file
+export { ConfigSchema, StructuredRuleSchema, DEFAULT_CONFIG } from "./schema.js";
+export { ConfigLoader, PROJECT_CONFIG_FILENAME, type LoadConfigOptions } from "./loader.js";
+export { watchConfigFiles, type ConfigWatcher } from "./watcher.js";
\ No newline at end of file
@@ -5,6 +5,14 @@ import * as toml from "toml";
 import type { Config } from "./schema.js";
 import { ConfigSchema, DEFAULT_CONFIG } from "./schema.js";
 
+// Per-repository config, discovered at the sandbox root
+export const PROJECT_CONFIG_FILENAME = ".shemcp.toml";
+
+export type LoadConfigOptions = {
+  // Throw on unreadable or invalid files instead of warning and skipping them (used by hot-reload)
+  strict?: boolean;
+};
+
 export class ConfigLoader {
   private static getConfigPaths(): string[] {
     return [
@@ -17,9 +25,10 @@ export class ConfigLoader {
   }
 
   /**
-   * Load and merge configuration from available config files
+   * Load and merge configuration from available config files, then apply
+   * the project's .shemcp.toml if a project root is given
    */
-  static loadConfig(): Config {
+  static loadConfig(projectRoot?: string, options: LoadConfigOptions = {}): Config {
     // Start from defaults, but allow partial overrides before validation
     let mergedConfig: any = { ...DEFAULT_CONFIG };
 
@@ -33,6 +42,9 @@ export class ConfigLoader {
           mergedConfig = this.mergeConfigs(mergedConfig, fileConfig);
         }
       } catch (error) {
+        if (options.strict) {
+          throw new Error(`Failed to load config from ${configPath}: ${error}`);
+        }
         console.warn(`Warning: Failed to load config from ${configPath}: ${error}`);
       }
     }
@@ -52,8 +64,120 @@ export class ConfigLoader {
       console.warn(`Warning: Unsupported config_version ${validated.config_version}; proceeding with best-effort parsing as version 1.`);
     }
     
+    // Project config can only tighten the result unless the repo is trusted
+    const withProject = projectRoot ? this.applyProjectConfig(validated, projectRoot, options) : validated;
+
     // Expand paths and compile patterns
-    return this.postProcessConfig(validated);
+    return this.postProcessConfig(withProject);
+  }
+
+  /**
+   * Merge <projectRoot>/.shemcp.toml into an already validated config.
+   * A broken project file is ignored with a warning rather than failing startup.
+   */
+  private static applyProjectConfig(base: Config, projectRoot: string, options: LoadConfigOptions): Config {
+    const projectPath = this.getProjectConfigPath(projectRoot);
+    if (!fs.existsSync(projectPath)) {
+      return base;
+    }
+
+    try {
+      const project = this.loadConfigFile(projectPath);
+      this.checkProjectPatterns(project);
+      const trusted = this.isTrustedProject(projectRoot, base.security.trusted_projects);
+      const { merged, ignored } = this.mergeProjectConfig(base, project, trusted);
+      if (ignored.length > 0) {
+        console.warn(`Warning: Ignored settings in ${projectPath}${trusted ? "" : " (repository is not in security.trusted_projects)"}: ${ignored.join(", ")}`);
+      }
+      return ConfigSchema.parse(merged);
+    } catch (error) {
+      if (options.strict) {
+        throw new Error(`Failed to load project config from ${projectPath}: ${error}`);
+      }
+      console.warn(`Warning: Failed to load project config from ${projectPath}: ${error}`);
+      return base;
+    }
+  }
+
+  /**
+   * Compile the regexes a project file contributes, so an invalid one rejects the file
+   * here instead of failing later when the policy is built
+   */
+  private static checkProjectPatterns(project: any): void {
+    const patterns = [
+      ...(project.commands?.allow ?? []),
+      ...(project.commands?.deny ?? []),
+      ...(project.commands?.ask ?? []),
+      ...(project.summary?.error_patterns ?? []),
+      ...(project.summary?.warning_patterns ?? []),
+    ];
+    for (const pattern of patterns) {
+      if (typeof pattern === "string") new RegExp(pattern, "i");
+    }
+  }
+
+  private static isTrustedProject(projectRoot: string, trustedProjects: string[]): boolean {
+    const canonical = (p: string) => {
+      try {
+        return fs.realpathSync(p);
+      } catch {
+        return path.resolve(p);
+      }
+    };
+    const root = canonical(projectRoot);
+    return trustedProjects.some(p => canonical(this.expandPath(p)) === root);
+  }
+
+  /**
+   * Merge project config additively. Deny rules are always added, limits can only
+   * shrink and the env whitelist can only narrow. Trusted projects may also add allow
+   * and ask rules (an approved ask runs a command no allow rule covers), raise limits
+   * and extend the whitelist. Sections that configure the server
+   * itself (server, directories, spill, audit, security) are never taken from a project.
+   */
+  private static mergeProjectConfig(base: Config, project: any, trusted: boolean): { merged: any; ignored: string[] } {
+    const ignored: string[] = [];
+    for (const section of ["server", "directories", "spill", "audit", "security"]) {
+      if (project[section] !== undefined) ignored.push(`[${section}]`);
+    }
+
+    const commands = project.commands ?? {};
+    const rules: any[] = commands.rules ?? [];
+    const widening = rules.filter(r => r?.action === "allow" || r?.action === "ask");
+    if (!trusted && (commands.allow ?? []).length > 0) ignored.push("commands.allow");
+    if (!trusted && (commands.ask ?? []).length > 0) ignored.push("commands.ask");
+    if (!trusted && widening.length > 0) ignored.push(`${widening.length} allow/ask rule(s) in [[commands.rules]]`);
+
+    const limits: Record<string, unknown> = { ...base.limits };
+    for (const [key, value] of Object.entries(project.limits ?? {})) {
+      const current = limits[key];
+      limits[key] = trusted || typeof value !== "number" || typeof current !== "number"
+        ? value
+        : Math.min(current, value);
+    }
+
+    let whitelist = base.environment.whitelist;
+    const projectWhitelist = project.environment?.whitelist;
+    if (Array.isArray(projectWhitelist)) {
+      whitelist = trusted
+        ? [...new Set([...whitelist, ...projectWhitelist])]
+        : whitelist.filter(k => projectWhitelist.includes(k));
+    }
+
+    const merged = {
+      ...base,
+      commands: {
+        allow: trusted ? [...base.commands.allow, ...(commands.allow ?? [])] : base.commands.allow,
+        deny: [...base.commands.deny, ...(commands.deny ?? [])],
+        ask: trusted ? [...base.commands.ask, ...(commands.ask ?? [])] : base.commands.ask,
+        rules: [...base.commands.rules, ...(trusted ? rules : rules.filter(r => !widening.includes(r)))],
+      },
+      limits,
+      environment: { ...base.environment, whitelist },
+      // Summary patterns only affect reporting, so any project may set them
+      summary: { ...base.summary, ...project.summary },
+    };
+    return { merged, ignored };
   }
 
   /**
@@ -94,6 +218,15 @@ export class ConfigLoader {
     if (override.environment) {
       merged.environment = { ...merged.environment, ...override.environment };
     }
+    if (override.spill) {
+      merged.spill = { ...merged.spill, ...override.spill };
+    }
+    if (override.summary) {
+      merged.summary = { ...merged.summary, ...override.summary };
+    }
+    if (override.audit) {
+      merged.audit = { ...merged.audit, ...override.audit };
+    }
     if (override.security) {
       merged.security = { ...merged.security, ...override.security };
     }
@@ -126,6 +259,13 @@ export class ConfigLoader {
     return this.getConfigPaths();
   }
 
+  /**
+   * Path of the project config for a sandbox root
+   */
+  static getProjectConfigPath(projectRoot: string): string {
+    return path.join(projectRoot, PROJECT_CONFIG_FILENAME);
+  }
+
   /**
    * Check which config files actually exist
    */
@@ -1,6 +1,22 @@
 import { z } from "zod";
 import * as os from "node:os";
 
+// Structured argv-based rule ([[commands.rules]]), evaluated on tokenized argv alongside the regexes
+export const StructuredRuleSchema = z.object({
+  name: z.string().optional(),
+  action: z.enum(["allow", "deny", "ask"]),
+  executable: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  subcommand: z.array(z.string()).optional(),
+  required_flags: z.array(z.string()).optional(),
+  forbidden_flags: z.array(z.string()).optional(),
+  args: z.array(z.string()).optional(),
+  max_args: z.number().int().min(0).optional(),
+});
+
+// Lines that shell_exec output summaries count as errors and warnings
+const DEFAULT_ERROR_PATTERNS = ["\\berror\\b", "\\bfail(ed|ure|ing)?\\b", "\\bexception\\b", "\\bfatal\\b", "\\bpanic(ked)?\\b", "^Traceback "];
+const DEFAULT_WARNING_PATTERNS = ["\\bwarn(ing)?\\b", "\\bdeprecat(ed|ion)\\b"];
+
 export const ConfigSchema = z.object({
   // Optional configuration format version (not the package version).
   // Reserved for future migrations/compat and currently informational.
@@ -19,21 +35,68 @@ export const ConfigSchema = z.object({
   commands: z.object({
     allow: z.array(z.string()).default([]),
     deny: z.array(z.string()).default([]),
+    // Commands matching these need interactive approval from the client (MCP elicitation)
+    ask: z.array(z.string()).default([]),
+    rules: z.array(StructuredRuleSchema).default([]),
   }).default({}),
 
   limits: z.object({
     timeout_seconds: z.number().int().min(1).max(600).default(600),
     max_output_bytes: z.number().int().min(1000).max(10_000_000).default(2_000_000),
+    // Maximum size of shell_exec stdin (inline text, base64 or spill file); 0 disables stdin
+    max_stdin_bytes: z.number().int().min(0).max(100_000_000).default(10_000_000),
+    // Seconds between SIGTERM and SIGKILL when a timed-out command's process group is terminated
+    kill_grace_seconds: z.number().min(0).max(60).default(5),
+    // Maximum number of concurrently running background jobs (shell_spawn)
+    max_jobs: z.number().int().min(1).max(64).default(4),
   }).default({}),
 
   environment: z.object({
     whitelist: z.array(z.string()).default([]),
   }).default({}),
 
+  spill: z.object({
+    // Spill files (~/.shemcp/tmp) not modified for this long are deleted by the sweeper
+    max_age_seconds: z.number().int().min(60).default(86_400),
+    // Disk quota for all spill files, in bytes on disk; the oldest finished ones are deleted first
+    max_total_bytes: z.number().int().min(1_000_000).default(1_000_000_000),
+    // Largest output of a command's stdout or stderr, before compression; output past it is dropped
+    max_file_bytes: z.number().int().min(100_000).default(200_000_000),
+    // Store shell_exec spill files as seekable gzip frames; reads still see the raw output
+    compression: z.enum(["none", "gzip"]).default("none"),
+  }).default({}),
+
+  summary: z.object({
+    // Output with more pages is summarized: lines matching these case-insensitive
+    // patterns are counted as errors, and otherwise as warnings
+    error_patterns: z.array(z.string()).default(DEFAULT_ERROR_PATTERNS),
+    warning_patterns: z.array(z.string()).default(DEFAULT_WARNING_PATTERNS),
+    // Line numbers listed for each kind
+    max_line_numbers: z.number().int().min(0).max(100).default(5),
+    // Size of the head and tail previews of each stream; 0 disables them
+    preview_bytes: z.number().int().min(0).max(40_000).default(2_000),
+  }).default({}),
+
+  audit: z.object({
+    // Append a JSON line per shell_exec decision and outcome
+    enabled: z.boolean().default(false),
+    path: z.string().default("~/.shemcp/audit.jsonl"),
+    // Rotate once the active file would exceed this size
+    max_bytes: z.number().int().min(10_000).default(10_000_000),
+    // Number of rotated files to keep (audit.jsonl.1 ... audit.jsonl.N)
+    max_files: z.number().int().min(1).max(100).default(5),
+  }).default({}),
+
   security: z.object({
+    // Enables the shell_set_policy tool for session-scoped policy changes
     allow_runtime_policy_changes: z.boolean().default(true),
+    // Lets shell_set_policy remove deny patterns (it can always add them)
+    allow_runtime_deny_removal: z.boolean().default(false),
     require_secure_permissions: z.boolean().default(false),
     worktree_detection: z.boolean().default(true),
+    // Repositories whose .shemcp.toml may widen policy (add allow rules, raise limits).
+    // Only honoured from user/system config.
+    trusted_projects: z.array(z.string()).default([]),
   }).default({}),
 }).default({});
 
@@ -65,17 +128,42 @@ export const DEFAULT_CONFIG: Config = {
       "^git\\s+push(\\s+.*)?\\s+(origin\\s+)?(main|master)(\\s+.*)?$",
       "^git\\s+push\\s*$",
     ],
+    ask: [],
+    rules: [],
   },
   limits: {
     timeout_seconds: 600,
     max_output_bytes: 2_000_000,
+    max_stdin_bytes: 10_000_000,
+    kill_grace_seconds: 5,
+    max_jobs: 4,
   },
   environment: {
     whitelist: ["PATH", "HOME", "LANG", "LC_ALL"],
   },
+  spill: {
+    max_age_seconds: 86_400,
+    max_total_bytes: 1_000_000_000,
+    max_file_bytes: 200_000_000,
+    compression: "none",
+  },
+  summary: {
+    error_patterns: DEFAULT_ERROR_PATTERNS,
+    warning_patterns: DEFAULT_WARNING_PATTERNS,
+    max_line_numbers: 5,
+    preview_bytes: 2_000,
+  },
+  audit: {
+    enabled: false,
+    path: "~/.shemcp/audit.jsonl",
+    max_bytes: 10_000_000,
+    max_files: 5,
+  },
   security: {
     allow_runtime_policy_changes: true,
+    allow_runtime_deny_removal: false,
     require_secure_permissions: false,
     worktree_detection: true,
+    trusted_projects: [],
   },
 };
\ No newline at end of file
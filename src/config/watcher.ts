@@ -0,0 +1,37 @@
+import { watchFile, unwatchFile, type Stats } from "node:fs";
+
+// Config files are polled: fs.watch loses track of files that editors replace on save
+const POLL_INTERVAL_MS = 1000;
+// Coalesce the several change events a single save can produce
+const DEBOUNCE_MS = 200;
+
+export type ConfigWatcher = {
+  close(): void;
+};
+
+/**
+ * Call onChange (debounced) whenever one of the given config files is modified,
+ * created or deleted. The watchers do not keep the process alive.
+ */
+export function watchConfigFiles(paths: string[], onChange: () => void): ConfigWatcher {
+  let timer: NodeJS.Timeout | undefined;
+  const listener = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+    clearTimeout(timer);
+    timer = setTimeout(onChange, DEBOUNCE_MS);
+    timer.unref();
+  };
+
+  for (const path of paths) {
+    watchFile(path, { interval: POLL_INTERVAL_MS, persistent: false }, listener);
+  }
+
+  return {
+    close() {
+      clearTimeout(timer);
+      for (const path of paths) {
+        unwatchFile(path, listener);
+      }
+    }
+  };
+}
@@ -1,14 +1,19 @@
 import { existsSync } from "node:fs";
-import { join } from "node:path";
-import { homedir } from "node:os";
 import {
+  type ParsedCursor,
   parseCursor,
+  resolveCursor,
+  readPage,
+  spillUriToPath,
   detectMimeType,
-  readFileRange,
   getFileSizeSync,
   DEFAULT_PAGE_LIMIT_BYTES,
   MAX_PAGE_LIMIT_BYTES,
 } from "../lib/pagination.js";
+import { type GrepFilter, parseGrepFilter, grepFile } from "../lib/grep.js";
+import { type JsonPath, parseJsonPath, projectJsonFile } from "../lib/json-path.js";
+import { type ChunkCleanup, parseChunkCleanup, cleanChunk } from "../lib/ansi.js";
+import { hasChunkIndex, annotateRange } from "../lib/chunk-index.js";
 
 export async function handleReadFileChunk(args: any) {
   const input = args as any;
@@ -32,10 +37,21 @@ export async function handleReadFileChunk(args: any) {
 
   const limitBytes = Math.min(Math.max(numericLimit, 1), MAX_PAGE_LIMIT_BYTES);
 
+  let limitLines: number | undefined;
+  if (input.limit_lines !== undefined) {
+    limitLines = Number(input.limit_lines);
+    if (!Number.isInteger(limitLines) || limitLines <= 0) {
+      return {
+        content: [{ type: "text", text: "Error: limit_lines must be a positive integer" }],
+        isError: true,
+      };
+    }
+  }
+
   // Validate cursor format
+  let cursor: ParsedCursor;
   try {
-    const cursor = input.cursor || { cursor_type: "bytes", offset: 0 };
-    parseCursor(cursor); // This will throw if format is invalid
+    cursor = parseCursor(input.cursor || { cursor_type: "bytes", offset: 0 });
   } catch (error: any) {
     return {
       content: [{ type: "text", text: `Error: Invalid cursor format: ${error.message}` }],
@@ -43,19 +59,46 @@ export async function handleReadFileChunk(args: any) {
     };
   }
 
-  const cursor = input.cursor || { cursor_type: "bytes", offset: 0 };
+  let filter: GrepFilter | undefined;
+  let jsonPath: JsonPath | undefined;
+  let cleanup: ChunkCleanup;
+  let annotated = false;
+  try {
+    cleanup = parseChunkCleanup(input);
+    if (input.filter !== undefined && input.json_path !== undefined) {
+      throw new Error("filter and json_path cannot be combined");
+    }
+    if (input.format !== undefined && input.format !== "text" && input.format !== "records") {
+      throw new Error("format must be 'text' or 'records'");
+    }
+    annotated = input.format === "records";
+    if (annotated && (input.filter !== undefined || input.json_path !== undefined)) {
+      throw new Error("format 'records' cannot be combined with filter or json_path");
+    }
+    if (input.filter !== undefined) {
+      filter = parseGrepFilter(input.filter);
+    }
+    if (input.json_path !== undefined) {
+      jsonPath = parseJsonPath(input.json_path);
+    }
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error: ${error.message}` }],
+      isError: true,
+    };
+  }
 
   // Extract file path from URI
-  if (!uri.startsWith("mcp://tmp/")) {
+  let filePath: string;
+  try {
+    filePath = spillUriToPath(uri);
+  } catch (error: any) {
     return {
-      content: [{ type: "text", text: `Error: Invalid URI format. Expected mcp://tmp/..., got: ${uri}` }],
+      content: [{ type: "text", text: `Error: ${error.message}` }],
       isError: true,
     };
   }
 
-  const fileName = uri.substring("mcp://tmp/".length);
-  const filePath = join(homedir(), ".shemcp", "tmp", fileName);
-
   if (!existsSync(filePath)) {
     return {
       content: [{ type: "text", text: `Error: Spill file not found: ${filePath}` }],
@@ -63,17 +106,102 @@ export async function handleReadFileChunk(args: any) {
     };
   }
 
+  if (annotated && !hasChunkIndex(filePath)) {
+    return {
+      content: [{ type: "text", text: "Error: format 'records' needs the output of a shell_exec run with merge_streams: true" }],
+      isError: true,
+    };
+  }
+
   try {
      // Get file stats to determine total size without reading whole file
      const totalBytes = getFileSizeSync(filePath);
 
-     const { offset } = parseCursor(cursor);
-     const endPos = Math.min(offset + limitBytes, totalBytes);
+     // A filtered read lists matching lines; next_cursor points at the next match
+     if (filter) {
+       const { offset, line } = await resolveCursor(filePath, totalBytes, cursor);
+       const grep = await grepFile(filePath, filter, offset, limitBytes, line);
+       return {
+         content: [{
+           type: "resource",
+           resource: {
+             uri,
+             text: JSON.stringify({
+               matches: grep.matches,
+               match_count: grep.matches.length,
+               bytes_start: grep.bytesStart,
+               bytes_end: grep.bytesEnd,
+               total_bytes: totalBytes,
+               next_cursor: grep.nextCursor
+             }, null, 2)
+           }
+         }]
+       };
+     }
+
+     // A projected read returns a page of the json_path result; offsets refer to that result
+     if (jsonPath) {
+       let projection;
+       try {
+         if (cursor.type !== "bytes") {
+           throw new Error("json_path results are paged with a 'bytes' cursor");
+         }
+         projection = await projectJsonFile(filePath, jsonPath, cursor.offset, limitBytes);
+       } catch (error: any) {
+         return {
+           content: [{ type: "text", text: `Error: ${error.message}` }],
+           isError: true,
+         };
+       }
+       return {
+         content: [{
+           type: "resource",
+           resource: {
+             uri,
+             text: JSON.stringify({
+               data: projection.chunk,
+               match_count: projection.matchCount,
+               bytes_start: projection.bytesStart,
+               bytes_end: projection.bytesEnd,
+               total_bytes: projection.totalBytes,
+               next_cursor: projection.nextCursor,
+               mime: "application/json"
+             }, null, 2)
+           }
+         }]
+       };
+     }
 
      // Use range reader to avoid loading whole file into RAM
-     const chunk = await readFileRange(filePath, offset, endPos);
+     const page = await readPage(filePath, totalBytes, cursor, limitBytes, limitLines);
 
-     const nextCursor = endPos < totalBytes ? { cursor_type: "bytes", offset: endPos } : undefined;
+     // Merged output can be split back into the chunks it arrived in, tagged with their stream
+     if (annotated) {
+       const records = (await annotateRange(filePath, page.start, page.end)).map((chunk) => ({
+         stream: chunk.stream,
+         t_ms: chunk.t_ms,
+         bytes_start: chunk.bytes_start,
+         bytes_end: chunk.bytes_end,
+         text: page.encoding === "utf8" ? cleanChunk(chunk.data.toString("utf8"), cleanup) : chunk.data.toString("base64"),
+       }));
+       return {
+         content: [{
+           type: "resource",
+           resource: {
+             uri,
+             text: JSON.stringify({
+               records,
+               encoding: page.encoding,
+               bytes_start: page.start,
+               bytes_end: page.end,
+               total_bytes: totalBytes,
+               next_cursor: page.nextCursor,
+               mime: page.mime ?? detectMimeType(page.chunk)
+             }, null, 2)
+           }
+         }]
+       };
+     }
 
      return {
        content: [{
@@ -81,12 +209,13 @@ export async function handleReadFileChunk(args: any) {
          resource: {
            uri,
            text: JSON.stringify({
-             data: chunk,
-             bytes_start: offset,
-             bytes_end: endPos,
+             data: page.encoding === "utf8" ? cleanChunk(page.chunk, cleanup) : page.chunk,
+             encoding: page.encoding,
+             bytes_start: page.start,
+             bytes_end: page.end,
              total_bytes: totalBytes,
-             next_cursor: nextCursor,
-             mime: detectMimeType(chunk)
+             next_cursor: page.nextCursor,
+             mime: page.mime ?? detectMimeType(page.chunk)
            }, null, 2)
          }
        }]
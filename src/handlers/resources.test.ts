@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { handleListResources, handleListResourceTemplates, handleReadResource } from './resources.js';
+import { handleShellExec } from './shell-exec.js';
+import { createPolicyFromConfig, type Policy } from '../lib/policy.js';
+import { releaseStoredExec } from '../lib/exec-store.js';
+import { onSpillFilesChanged } from '../lib/spill-retention.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+describe('spill file resources', () => {
+  let root: string;
+  let policy: Policy;
+
+  // Run seq with a small page so its output is stored under an exec_id
+  const runPaged = async (count: number) => {
+    const response: any = await handleShellExec({ cmd: 'seq', args: ['1', String(count)], page: { limit_bytes: 100 } }, policy);
+    return JSON.parse(response.content[0].resource.text);
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'shemcp-resources-'));
+    policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root },
+      commands: { allow: ['^seq(\\s|$)'], deny: [], ask: [], rules: [] },
+      environment: { whitelist: ['PATH'] }
+    });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should list stored output with its command, cwd, size and MIME type', async () => {
+    const result = await runPaged(1000);
+    const { resources } = await handleListResources();
+    const resource: any = resources.find(r => r.uri === result.spill_uri);
+
+    expect(resource).toBeDefined();
+    expect(resource.mimeType).toBe('text/plain');
+    expect(resource.size).toBe(result.total_bytes);
+    expect(resource._meta).toMatchObject({
+      cmdline: ['seq', '1', '1000'],
+      cwd: root,
+      stream: 'stdout',
+      exec_id: result.exec_id
+    });
+    expect(Date.parse(resource._meta.created_at)).not.toBeNaN();
+
+    releaseStoredExec(result.exec_id);
+    const after = await handleListResources();
+    expect(after.resources.some(r => r.uri === result.spill_uri)).toBe(false);
+  });
+
+  it('should read a byte range given by offset and limit_bytes', async () => {
+    const result = await runPaged(1000);
+    const expected = Array.from({ length: 1000 }, (_, i) => `${i + 1}\n`).join('');
+
+    const read: any = await handleReadResource(`${result.spill_uri}?offset=10&limit_bytes=20`);
+    expect(read.contents[0].text).toBe(expected.slice(10, 30));
+    expect(read.contents[0]._meta).toEqual({
+      bytes_start: 10,
+      bytes_end: 30,
+      total_bytes: expected.length,
+      next_uri: `${result.spill_uri}?offset=30&limit_bytes=20`
+    });
+
+    const last: any = await handleReadResource(`${result.spill_uri}?offset=${expected.length - 5}`);
+    expect(last.contents[0].text).toBe(expected.slice(-5));
+    expect(last.contents[0]._meta.next_uri).toBeUndefined();
+    releaseStoredExec(result.exec_id);
+  });
+
+  it('should reject bad ranges and missing files', async () => {
+    await expect(handleReadResource('mcp://tmp/exec-missing.out')).rejects.toThrow(/Spill file not found/);
+    await expect(handleReadResource('mcp://tmp/exec-missing.out?offset=-1')).rejects.toThrow(/offset/);
+    await expect(handleReadResource('mcp://tmp/exec-missing.out?limit_bytes=0')).rejects.toThrow(/limit_bytes/);
+    await expect(handleReadResource('mcp://tmp/exec-missing.out?lines=3')).rejects.toThrow(/Unsupported query parameter/);
+    await expect(handleReadResource('file:///etc/passwd')).rejects.toThrow(/Invalid URI format/);
+  });
+
+  it('should describe the range template', () => {
+    const { resourceTemplates } = handleListResourceTemplates();
+    expect(resourceTemplates[0]!.uriTemplate).toBe('mcp://tmp/{name}{?offset,limit_bytes}');
+  });
+
+  it('should notify when spill files are published or released', async () => {
+    let changes = 0;
+    const unsubscribe = onSpillFilesChanged(() => { changes++; });
+    const result = await runPaged(1000);
+    await new Promise(resolve => setImmediate(resolve));
+    const published = changes;
+    expect(published).toBeGreaterThan(0);
+
+    releaseStoredExec(result.exec_id);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(changes).toBe(published + 1);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,156 @@
+import { existsSync } from "node:fs";
+import { basename } from "node:path";
+import {
+  spillUriToPath,
+  readPage,
+  detectMimeType,
+  getFileSizeSync,
+  SPILL_URI_PREFIX,
+  DEFAULT_PAGE_LIMIT_BYTES,
+  MAX_PAGE_LIMIT_BYTES,
+} from "../lib/pagination.js";
+import { listStoredExecs } from "../lib/exec-store.js";
+import { listJobs } from "../lib/jobs.js";
+import { spillDirectory, spillPaths, listSpillIds, readSpillMeta } from "../lib/spill-catalog.js";
+
+/** ---------- Spill File Resources ---------- */
+
+type LiveSpill = {
+  uri: string;
+  path: string;
+  stream: "stdout" | "stderr";
+  cmdline: string[];
+  cwd: string;
+  createdAt: number;
+  owner: { exec_id: string } | { job_id: string } | { pinned: true };
+};
+
+export const spillResourceTemplates = [
+  {
+    uriTemplate: `${SPILL_URI_PREFIX}{name}{?offset,limit_bytes}`,
+    name: "spill-file-range",
+    title: "Spill file byte range",
+    description: `Bytes of a spill file starting at offset (default 0), at most limit_bytes (default and max ${MAX_PAGE_LIMIT_BYTES}). The contents' _meta has bytes_start, bytes_end, total_bytes and next_uri for the following range.`,
+  },
+];
+
+/**
+ * Spill files that can still be read: the output of stored exec results (commands
+ * with unread pages), of background jobs and pinned output
+ */
+function liveSpills(): LiveSpill[] {
+  const spills: LiveSpill[] = [];
+  for (const entry of listStoredExecs()) {
+    const base = { cmdline: entry.cmdline, cwd: entry.cwd, createdAt: entry.createdAt, owner: { exec_id: entry.id } };
+    if (entry.stdoutBytes > 0) {
+      spills.push({ ...base, uri: entry.spillFile.uri, path: entry.spillFile.path, stream: "stdout" });
+    }
+    if (entry.stderrBytes > 0 && entry.spillFile.stderrUri && entry.spillFile.stderrPath) {
+      spills.push({ ...base, uri: entry.spillFile.stderrUri, path: entry.spillFile.stderrPath, stream: "stderr" });
+    }
+  }
+  for (const job of listJobs()) {
+    const base = { cmdline: job.cmdline, cwd: job.cwd, createdAt: job.startedAt, owner: { job_id: job.id } };
+    spills.push({ ...base, uri: job.spillFile.uri, path: job.spillFile.path, stream: "stdout" });
+    if (job.spillFile.stderrUri && job.spillFile.stderrPath) {
+      spills.push({ ...base, uri: job.spillFile.stderrUri, path: job.spillFile.stderrPath, stream: "stderr" });
+    }
+  }
+  const listed = new Set(spills.map(spill => spill.uri));
+  for (const spillId of listSpillIds()) {
+    const paths = spillPaths(spillDirectory(), spillId);
+    const meta = readSpillMeta(paths.meta);
+    if (!meta?.pinned) continue;
+    const base = { cmdline: meta.cmdline, cwd: meta.cwd, createdAt: Date.parse(meta.created_at), owner: { pinned: true as const } };
+    const stdoutUri = `${SPILL_URI_PREFIX}${spillId}.out`;
+    const stderrUri = `${SPILL_URI_PREFIX}${spillId}.err`;
+    if (!listed.has(stdoutUri)) spills.push({ ...base, uri: stdoutUri, path: paths.stdout, stream: "stdout" });
+    if (!listed.has(stderrUri)) spills.push({ ...base, uri: stderrUri, path: paths.stderr, stream: "stderr" });
+  }
+  return spills.filter(spill => existsSync(spill.path));
+}
+
+export async function handleListResources() {
+  const resources = [];
+  for (const spill of liveSpills()) {
+    const size = getFileSizeSync(spill.path);
+    // Typed like the first page shell_exec returns for the output
+    const head = await readPage(spill.path, size, { type: "bytes", offset: 0 }, DEFAULT_PAGE_LIMIT_BYTES);
+    resources.push({
+      uri: spill.uri,
+      name: basename(spill.path),
+      title: `${spill.stream} of ${spill.cmdline.join(" ")}`,
+      description: `${spill.stream} of \`${spill.cmdline.join(" ")}\` run in ${spill.cwd}`,
+      mimeType: head.mime ?? detectMimeType(head.chunk),
+      size,
+      _meta: {
+        cmdline: spill.cmdline,
+        cwd: spill.cwd,
+        stream: spill.stream,
+        created_at: new Date(spill.createdAt).toISOString(),
+        ...spill.owner,
+      },
+    });
+  }
+  return { resources };
+}
+
+export function handleListResourceTemplates() {
+  return { resourceTemplates: spillResourceTemplates };
+}
+
+/**
+ * Read a byte range of a spill file. The range comes from the URI's offset and
+ * limit_bytes query parameters; text is returned as text and binary output as a blob.
+ */
+export async function handleReadResource(uri: string) {
+  const range = parseRangeUri(uri);
+  const filePath = spillUriToPath(range.spillUri);
+  if (!existsSync(filePath)) {
+    throw new Error(`Spill file not found: ${range.spillUri}. It may have been read to the end, expired or been swept.`);
+  }
+
+  const totalBytes = getFileSizeSync(filePath);
+  const page = await readPage(filePath, totalBytes, { type: "bytes", offset: range.offset }, range.limitBytes);
+  const meta = {
+    bytes_start: page.start,
+    bytes_end: page.end,
+    total_bytes: totalBytes,
+    ...(page.end < totalBytes ? { next_uri: `${range.spillUri}?offset=${page.end}&limit_bytes=${range.limitBytes}` } : {}),
+  };
+  const mimeType = page.mime ?? detectMimeType(page.chunk);
+  return {
+    contents: [
+      page.encoding === "base64"
+        ? { uri, mimeType, blob: page.chunk, _meta: meta }
+        : { uri, mimeType, text: page.chunk, _meta: meta },
+    ],
+  };
+}
+
+/**
+ * Split a resource URI into the spill file URI and its byte range
+ */
+function parseRangeUri(uri: unknown): { spillUri: string; offset: number; limitBytes: number } {
+  if (typeof uri !== "string") {
+    throw new Error("Resource URI must be a string");
+  }
+  const query = uri.indexOf("?");
+  const spillUri = query === -1 ? uri : uri.slice(0, query);
+  const params = new URLSearchParams(query === -1 ? "" : uri.slice(query + 1));
+  for (const key of params.keys()) {
+    if (key !== "offset" && key !== "limit_bytes") {
+      throw new Error(`Unsupported query parameter '${key}' in ${uri}; use offset and limit_bytes`);
+    }
+  }
+
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error("offset must be a non-negative integer");
+  }
+  const limitBytes = Number(params.get("limit_bytes") ?? DEFAULT_PAGE_LIMIT_BYTES);
+  if (!Number.isInteger(limitBytes) || limitBytes <= 0 || limitBytes > MAX_PAGE_LIMIT_BYTES) {
+    throw new Error(`limit_bytes must be an integer between 1 and ${MAX_PAGE_LIMIT_BYTES}`);
+  }
+  return { spillUri, offset, limitBytes };
+}
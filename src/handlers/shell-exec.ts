@@ -1,16 +1,35 @@
-import { resolve, isAbsolute as pathIsAbsolute } from "node:path";
-import type { Policy } from "../lib/policy.js";
-import { ensureCwd, checkCommandPolicy, getEffectiveLimits } from "../lib/policy.js";
-import { buildCmdLine, parseBashWrapper, parseShellCommand, stripEnvPrefix, parseEnvVars } from "../lib/command.js";
+import type { Policy, PolicyCheckResult } from "../lib/policy.js";
+import { getEffectiveLimits } from "../lib/policy.js";
+import { type PrepareResult, prepareCommand } from "../lib/prepare.js";
+import { writeAuditEntry } from "../lib/audit.js";
+import { type StdinSource, resolveStdin } from "../lib/stdin.js";
+import { type PtyOptions, parsePtyOptions } from "../lib/pty.js";
+import { type ChunkCleanup, parseChunkCleanup, cleanChunk } from "../lib/ansi.js";
+import type { ChunkEncoding } from "../lib/encoding.js";
+import { type GrepFilter, type GrepResult, parseGrepFilter, grepFile } from "../lib/grep.js";
+import { type JsonPath, type JsonPathResult, parseJsonPath, projectJsonFile } from "../lib/json-path.js";
+import type { Approver } from "../lib/approval.js";
 import {
   type PaginationConfig,
   type LargeOutputBehavior,
+  type ParsedCursor,
+  type SpillFile,
   parseCursor,
+  isCursorPastStart,
+  resolveCursor,
+  readPage,
+  detectMimeType,
+  countLines,
+  DEFAULT_PAGE_LIMIT_BYTES,
   MAX_PAGE_LIMIT_BYTES
 } from "../lib/pagination.js";
 import { execWithPagination } from "../lib/execution.js";
+import { type StoredExec, storeExec, getStoredExec, releaseStoredExec } from "../lib/exec-store.js";
+import { isSpillPinned } from "../lib/spill-catalog.js";
+import { type OutputOverview, type OutputPreview, type SummarySettings, describeOutput } from "../lib/summary.js";
+import { debugLog } from "../lib/debug.js";
 
-export async function handleShellExec(args: any, policy: Policy) {
+export async function handleShellExec(args: any, policy: Policy, approver?: Approver) {
   const input = args as any;
 
   if (!input.page || typeof input.page !== "object") {
@@ -20,83 +39,9 @@ export async function handleShellExec(args: any, policy: Policy) {
     };
   }
 
-  // Resolve cwd: relative paths are resolved against sandbox root,
-  // absolute paths are used directly but must pass ensureCwd validation
-  // (which checks sandbox boundaries and valid worktrees)
-  const resolvedCwd = resolve(policy.rootDirectory, input.cwd || ".");
-  ensureCwd(resolvedCwd, policy);
-
-  // Strip environment variable prefixes before parsing
-  // e.g., FOO=bar npm run test -> { envVars: ["FOO=bar"], cmd: "npm", args: ["run", "test"] }
-  let envVars: string[] = [];
-  let cmdWithoutEnv: string;
-  let argsWithoutEnv: string[];
-  try {
-    const stripped = stripEnvPrefix(input.cmd, input.args || []);
-    envVars = stripped.envVars;
-    cmdWithoutEnv = stripped.cmd;
-    argsWithoutEnv = stripped.args;
-  } catch (error: any) {
-    return {
-      content: [{ type: "text", text: `Error: ${error.message}` }],
-      isError: true,
-    };
-  }
-
-  // Parse bash wrapper to extract underlying command for allowlist checking
-  // Use the command WITHOUT env vars for parsing and validation
-  let wrapperInfo: ReturnType<typeof parseBashWrapper>;
-  try {
-    wrapperInfo = parseBashWrapper(cmdWithoutEnv, argsWithoutEnv);
-  } catch (error: any) {
-    return {
-      content: [{ type: "text", text: `Error: ${error.message}` }],
-      isError: true,
-    };
-  }
-
-  // Check allowlist against the full underlying command (not just the executable)
-  // For wrappers, reconstruct the full command from the parsed tokens
-  // For non-wrappers, use the cmd and args WITHOUT env vars
-  let fullCommandForPolicy: string;
-  if (wrapperInfo.isWrapper) {
-    // Use the tokenized command string to rebuild the full command for policy checking
-    const tokens = parseShellCommand(wrapperInfo.commandString!);
-    fullCommandForPolicy = tokens.join(" ");
-  } else {
-    // Direct command - use cmd and args WITHOUT env var prefix
-    fullCommandForPolicy = buildCmdLine(cmdWithoutEnv, argsWithoutEnv);
-  }
-
-  // Check policy with detailed diagnostics
-  const policyCheck = checkCommandPolicy(fullCommandForPolicy, policy);
-  if (!policyCheck.allowed) {
-    let errorMessage = `Denied by policy: ${fullCommandForPolicy}
-
-`;
-    errorMessage += `Reason: ${policyCheck.reason}`;
-
-    if (policyCheck.matchedRule) {
-      errorMessage += `
-Matched ${policyCheck.ruleType} rule: /${policyCheck.matchedRule}/`;
-    }
-
-    // For wrapped commands, show both the original input and unwrapped command
-    if (wrapperInfo.isWrapper) {
-      const originalCmd = buildCmdLine(input.cmd, input.args || []);
-      if (originalCmd !== fullCommandForPolicy) {
-        errorMessage += `
-
-Original command: ${originalCmd}`;
-        errorMessage += `
-Unwrapped command: ${fullCommandForPolicy}`;
-      }
-    }
-
-    return {
-      content: [{ type: "text", text: errorMessage }],
-      isError: true,
-    };
+  // Later pages of a previous run are served from its retained spill files
+  if (input.exec_id !== undefined) {
+    return await handleStoredPage(input);
   }
 
   // Compute effective per-request limits
@@ -126,7 +71,7 @@ Unwrapped command: ${fullCommandForPolicy}`;
   }
 
   // Validate cursor format if provided
-  let parsedCursor: ReturnType<typeof parseCursor> | undefined;
+  let parsedCursor: ParsedCursor | undefined;
   if (pagination.cursor) {
     try {
       parsedCursor = parseCursor(pagination.cursor);
@@ -138,57 +83,75 @@ Unwrapped command: ${fullCommandForPolicy}`;
     }
   }
 
-  // Determine the actual command and args to execute
-  let execCmd: string;
-  let execArgs: string[];
-
-  if (wrapperInfo.isWrapper) {
-    // Execute via the appropriate shell (bash or sh)
-    execCmd = wrapperInfo.shell === 'sh' ? "/bin/sh" : "/bin/bash";
-
-    // Start with user-supplied flags (like --noprofile, --norc, etc.)
-    execArgs = [...(wrapperInfo.flagsBeforeCommand || [])];
-
-    // Add login flag if needed
-    if (wrapperInfo.shouldUseLogin) {
-      execArgs.push("-l");
-    }
+  // Re-running the command to slice a later page would repeat its side effects
+  if (parsedCursor && isCursorPastStart(parsedCursor)) {
+    return {
+      content: [{
+        type: "text",
+        text: "Error: a non-zero page.cursor requires the exec_id returned by the first page; pass exec_id to read later pages without re-running the command",
+      }],
+      isError: true,
+    };
+  }
 
-    // Prepend env vars to the command string if any
-    // e.g., "FOO=bar npm run test" becomes "FOO=bar npm run test" in the shell
-    let commandString = wrapperInfo.commandString!;
-    if (envVars.length > 0) {
-      commandString = envVars.join(" ") + " " + commandString;
+  let stdin: StdinSource | undefined;
+  let tty: PtyOptions | undefined;
+  let filter: GrepFilter | undefined;
+  let jsonPath: JsonPath | undefined;
+  let cleanup: ChunkCleanup;
+  let mergeStreams = false;
+  try {
+    if (input.stdin !== undefined) {
+      stdin = resolveStdin(input.stdin, policy.maxStdinBytes);
     }
-
-    // Add our execution flags and command
-    // Note: pipefail is bash-specific and not POSIX-compliant, so only add it for bash
-    if (wrapperInfo.shell === 'bash') {
-      execArgs.push("-o", "pipefail", "-o", "errexit", "-c", commandString);
-    } else {
-      // For sh, use the portable short form -e instead of -o errexit (POSIX-compliant)
-      execArgs.push("-e", "-c", commandString);
+    tty = parsePtyOptions(input);
+    if (input.merge_streams !== undefined && typeof input.merge_streams !== "boolean") {
+      throw new Error("merge_streams must be a boolean");
     }
-
-    // Append any trailing arguments after the command string (for $0, $1, etc.)
-    // e.g., bash -c 'echo "$1"' -- foo  -> trailing args are ["--", "foo"]
-    // Need to calculate the correct offset in the original args array
-    // argsAfterCommand is relative to argsWithoutEnv, so add the envVars length
-    const originalArgsAfterCommand = wrapperInfo.argsAfterCommand !== undefined
-      ? wrapperInfo.argsAfterCommand + envVars.length
-      : undefined;
-    if (originalArgsAfterCommand !== undefined && originalArgsAfterCommand < input.args.length) {
-      const trailingArgs = input.args.slice(originalArgsAfterCommand);
-      execArgs.push(...trailingArgs);
+    mergeStreams = input.merge_streams === true;
+    if (mergeStreams && tty) {
+      throw new Error("merge_streams cannot be combined with tty, which already merges stdout and stderr");
     }
-  } else {
-    // Direct execution (no wrapper)
-    execCmd = cmdWithoutEnv;
-    execArgs = argsWithoutEnv;
+    cleanup = parseChunkCleanup(input);
+    ({ filter, jsonPath } = parseStdoutTransforms(input));
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error: ${error.message}` }],
+      isError: true,
+    };
+  }
+  // Filtering, projection and line cursors read the stdout spill file; a tail cursor
+  // can be served from the ring of recent output in memory
+  const spillOption = filter ? "filter" : jsonPath ? "json_path" : parsedCursor?.type === "lines" ? "cursor_type 'lines'" : undefined;
+  if (spillOption && onLargeOutput !== "spill") {
+    return {
+      content: [{ type: "text", text: `Error: ${spillOption} requires on_large_output "spill"` }],
+      isError: true,
+    };
+  }
+  if (jsonPath && parsedCursor && parsedCursor.type !== "bytes") {
+    return {
+      content: [{ type: "text", text: "Error: json_path results are paged with a 'bytes' cursor" }],
+      isError: true,
+    };
   }
 
-  // Parse env vars from KEY=value format to pass to spawn
-  const additionalEnv = envVars.length > 0 ? parseEnvVars(envVars) : undefined;
+  // Policy runs last so the user is never asked to approve a request that is invalid anyway
+  let prepared: PrepareResult;
+  try {
+    prepared = await prepareCommand(input, policy, approver);
+  } catch (error: any) {
+    auditDenial(input, error.message, null);
+    throw error;
+  }
+  if (!prepared.ok) {
+    auditDenial(input, prepared.policyCheck?.reason ?? prepared.message, prepared.cwd ?? null, prepared.policyCheck);
+    return {
+      content: [{ type: "text", text: prepared.message }],
+      isError: true,
+    };
+  }
+  const { cwd: resolvedCwd, execCmd, execArgs, additionalEnv, policyCheck } = prepared.command;
 
   const res = await execWithPagination(
     execCmd,
@@ -199,11 +162,85 @@ Unwrapped command: ${fullCommandForPolicy}`;
     policy,
     pagination,
     onLargeOutput,
-    additionalEnv
+    additionalEnv,
+    stdin,
+    tty,
+    mergeStreams
   );
 
-  // Clean up spill file after response if not needed for pagination
-  if (res.spillFile && !res.nextCursor) {
+  writeAuditEntry({
+    tool: "shell_exec",
+    cmdline: prepared.command.cmdline,
+    effective_cmdline: [execCmd, ...execArgs],
+    cwd: resolvedCwd,
+    verdict: "allow",
+    reason: policyCheck.reason,
+    matched_rule: policyCheck.matchedRule ?? null,
+    rule_type: policyCheck.ruleType ?? null,
+    exit_code: res.exitCode,
+    signal: res.signal,
+    timed_out: res.timedOut,
+    duration_ms: res.durationMs,
+    stdin_bytes: stdin?.bytes ?? null,
+    stdout_bytes: res.stdoutBytes,
+    stderr_bytes: res.stderrBytes
+  });
+
+  // stderr is returned up to max_output_bytes on the first page; page the rest from the spill
+  const stderrNextCursor = res.spillFile && res.stderrBytes > res.stderrBytesEnd
+    ? { cursor_type: 'bytes', offset: res.stderrBytesEnd }
+    : undefined;
+
+  // A filtered first page lists matching lines instead of the first raw chunk
+  let grep: GrepResult | undefined;
+  if (filter) {
+    if (res.spillFile?.path) {
+      const { offset, line } = parsedCursor
+        ? await resolveCursor(res.spillFile.path, res.stdoutBytes, parsedCursor)
+        : { offset: 0, line: 1 };
+      grep = await grepFile(res.spillFile.path, filter, offset, pageLimitBytes(pagination), offset === 0 ? 1 : line);
+    } else {
+      grep = { matches: [], bytesStart: 0, bytesEnd: 0, nextCursor: undefined };
+    }
+  }
+  // A projected first page returns the start of the json_path result. Output that is not
+  // JSON is reported alongside the raw page, since the command has already run.
+  let projection: JsonPathResult | undefined;
+  let jsonPathError: string | undefined;
+  if (jsonPath) {
+    try {
+      if (!res.spillFile?.path) {
+        throw new Error("json_path needs JSON output, but the output is empty");
+      }
+      projection = await projectJsonFile(res.spillFile.path, jsonPath, 0, pageLimitBytes(pagination));
+    } catch (error: any) {
+      jsonPathError = error.message;
+    }
+  }
+  const stdoutNextCursor = grep ? grep.nextCursor : projection ? projection.nextCursor : res.nextCursor;
+
+  // Retain spill files for later pages; otherwise clean them up right away
+  let stored: StoredExec | undefined;
+  if (res.spillFile && (stdoutNextCursor || stderrNextCursor)) {
+    const overview = await overviewOf(res.spillFile, res.stdoutBytes, res.stderrBytes, policy.summary);
+    stored = storeExec({
+      cmdline: prepared.command.cmdline,
+      effectiveCmdline: [execCmd, ...execArgs],
+      cwd: resolvedCwd,
+      spillFile: res.spillFile,
+      stdoutBytes: res.stdoutBytes,
+      stderrBytes: res.stderrBytes,
+      spillTruncated: res.spillTruncated,
+      mergedStreams: mergeStreams,
+      exitCode: res.exitCode,
+      signal: res.signal,
+      timedOut: res.timedOut,
+      durationMs: res.durationMs,
+      limits: { timeout_ms: effectiveTimeoutMs, max_output_bytes: effectiveMaxBytes },
+      pending: { stdout: !!stdoutNextCursor, stderr: !!stderrNextCursor },
+      overview
+    });
+  } else if (res.spillFile) {
     res.spillFile.cleanup();
     delete res.spillFile;
   }
@@ -211,14 +248,19 @@ Unwrapped command: ${fullCommandForPolicy}`;
   const responseObj: any = {
     exit_code: res.exitCode,
     signal: res.signal,
+    timed_out: res.timedOut,
     duration_ms: res.durationMs,
-    stdout_chunk: res.stdout,
-    stderr_chunk: res.stderr,
-    bytes_start: parsedCursor?.offset ?? 0,
-    bytes_end: (parsedCursor?.offset ?? 0) + Buffer.byteLength(res.stdout, 'utf8'),
+    stdout_chunk: presentChunk(res.stdout, res.encoding, cleanup),
+    stderr_chunk: presentChunk(res.stderr, res.stderrEncoding, cleanup),
+    encoding: res.encoding,
+    stderr_encoding: res.stderrEncoding,
+    bytes_start: res.bytesStart,
+    bytes_end: res.bytesEnd,
     total_bytes: res.totalBytes,
     truncated: res.truncated,
-    next_cursor: res.nextCursor,
+    spill_truncated: res.spillTruncated,
+    next_cursor: stdoutNextCursor,
+    stderr_next_cursor: stderrNextCursor,
     mime: res.mime,
     line_count: res.lineCount,
     stderr_count: res.stderrCount,
@@ -231,6 +273,30 @@ Unwrapped command: ${fullCommandForPolicy}`;
     }
   };
 
+  if (stored) {
+    responseObj.exec_id = stored.id;
+    withOverview(responseObj, stored.overview, cleanup, {
+      stdout: !grep && !projection && res.bytesStart === 0,
+      stderr: true
+    });
+  }
+  if (grep) {
+    withGrepMatches(responseObj, grep);
+  }
+  if (projection) {
+    withJsonProjection(responseObj, projection);
+  }
+  if (jsonPathError) {
+    responseObj.json_path_error = jsonPathError;
+  }
+  // stderr is merged into stdout on a terminal
+  if (tty) {
+    responseObj.tty = { rows: tty.rows, cols: tty.cols };
+  }
+  if (mergeStreams) {
+    responseObj.merged_streams = true;
+  }
+
   // Only include spill URIs if they were actually created and used
   if (res.spillFile?.uri) {
     responseObj.spill_uri = res.spillFile.uri;
@@ -249,3 +315,330 @@ Unwrapped command: ${fullCommandForPolicy}`;
     }]
   };
 }
+
+/**
+ * Read the filter and json_path options, which both replace the raw stdout page.
+ * Throws with a client-facing message if they are invalid or combined.
+ */
+function parseStdoutTransforms(input: any): { filter: GrepFilter | undefined; jsonPath: JsonPath | undefined } {
+  if (input.filter !== undefined && input.json_path !== undefined) {
+    throw new Error("filter and json_path cannot be combined");
+  }
+  return {
+    filter: input.filter !== undefined ? parseGrepFilter(input.filter) : undefined,
+    jsonPath: input.json_path !== undefined ? parseJsonPath(input.json_path) : undefined,
+  };
+}
+
+/**
+ * Apply ansi_strip and normalize_newlines to a text chunk; base64 chunks are left alone
+ */
+function presentChunk(chunk: string, encoding: ChunkEncoding, cleanup: ChunkCleanup): string {
+  return encoding === "utf8" ? cleanChunk(chunk, cleanup) : chunk;
+}
+
+function pageLimitBytes(pagination: PaginationConfig): number {
+  return Math.min(Number(pagination.limit_bytes ?? DEFAULT_PAGE_LIMIT_BYTES), MAX_PAGE_LIMIT_BYTES);
+}
+
+/**
+ * Replace the raw stdout page of a response with the lines a filter matched.
+ * bytes_start/bytes_end then cover the scanned range of stdout.
+ */
+function withGrepMatches(responseObj: any, grep: GrepResult) {
+  delete responseObj.stdout_chunk;
+  delete responseObj.encoding;
+  delete responseObj.mime;
+  delete responseObj.line_count;
+  responseObj.truncated = false;
+  responseObj.bytes_start = grep.bytesStart;
+  responseObj.bytes_end = grep.bytesEnd;
+  responseObj.match_count = grep.matches.length;
+  responseObj.matches = grep.matches;
+}
+
+/**
+ * Replace the raw stdout page of a response with a page of the json_path result.
+ * bytes_start/bytes_end and next_cursor then refer to the encoded result.
+ */
+function withJsonProjection(responseObj: any, projection: JsonPathResult) {
+  delete responseObj.stdout_chunk;
+  delete responseObj.encoding;
+  delete responseObj.line_count;
+  responseObj.mime = "application/json";
+  responseObj.truncated = false;
+  responseObj.bytes_start = projection.bytesStart;
+  responseObj.bytes_end = projection.bytesEnd;
+  responseObj.match_count = projection.matchCount;
+  responseObj.json_result = projection.chunk;
+  responseObj.json_result_bytes = projection.totalBytes;
+}
+
+/**
+ * Summarize and preview output that has more pages. Failures only cost the overview.
+ */
+async function overviewOf(
+  spillFile: SpillFile,
+  stdoutBytes: number,
+  stderrBytes: number,
+  settings: SummarySettings
+): Promise<OutputOverview | undefined> {
+  try {
+    return await describeOutput({
+      ...(spillFile.path ? { stdout: { path: spillFile.path, bytes: stdoutBytes } } : {}),
+      ...(spillFile.stderrPath ? { stderr: { path: spillFile.stderrPath, bytes: stderrBytes } } : {})
+    }, settings);
+  } catch (error) {
+    debugLog("Failed to summarize output", { error });
+    return undefined;
+  }
+}
+
+/**
+ * Add the summary and previews of output with more pages to a response. Head previews
+ * are only added for streams whose start the response does not already show.
+ */
+function withOverview(
+  responseObj: any,
+  overview: OutputOverview | undefined,
+  cleanup: ChunkCleanup,
+  showsHead: { stdout: boolean; stderr: boolean }
+) {
+  if (!overview) return;
+  const present = (preview: OutputPreview) => ({ ...preview, text: cleanChunk(preview.text, cleanup) });
+
+  responseObj.summary = overview.summary;
+  const head: Record<string, unknown> = {};
+  const tail: Record<string, unknown> = {};
+  for (const stream of ["stdout", "stderr"] as const) {
+    const headPreview = overview.headPreview[stream];
+    const tailPreview = overview.tailPreview[stream];
+    if (headPreview && !showsHead[stream]) head[stream] = present(headPreview);
+    if (tailPreview) tail[stream] = present(tailPreview);
+  }
+  if (Object.keys(head).length > 0) responseObj.head_preview = head;
+  if (Object.keys(tail).length > 0) responseObj.tail_preview = tail;
+}
+
+/**
+ * Record a request that was refused before anything ran
+ */
+function auditDenial(input: any, reason: string, cwd: string | null, policyCheck?: PolicyCheckResult) {
+  writeAuditEntry({
+    tool: "shell_exec",
+    cmdline: [input.cmd, ...(input.args || [])],
+    effective_cmdline: null,
+    cwd,
+    verdict: "deny",
+    reason,
+    matched_rule: policyCheck?.matchedRule ?? null,
+    rule_type: policyCheck?.ruleType ?? null,
+    exit_code: null,
+    signal: null,
+    timed_out: null,
+    duration_ms: null,
+    stdin_bytes: null,
+    stdout_bytes: null,
+    stderr_bytes: null
+  });
+}
+
+/**
+ * Serve a later stdout/stderr page of a previous shell_exec run from its retained
+ * spill files. Nothing is spawned; the entry is released once both streams are exhausted.
+ */
+async function handleStoredPage(input: any) {
+  const pagination = input.page as PaginationConfig;
+
+  let entry: StoredExec;
+  try {
+    entry = getStoredExec(String(input.exec_id));
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error: ${error.message}` }],
+      isError: true,
+    };
+  }
+
+  // Guard against pairing an exec_id with a different command
+  if (input.cmd !== undefined) {
+    const cmdline = [input.cmd, ...(input.args || [])];
+    if (JSON.stringify(cmdline) !== JSON.stringify(entry.cmdline)) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error: exec_id ${entry.id} belongs to a different command: ${entry.cmdline.join(" ")}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  const limitBytes = Number(pagination.limit_bytes ?? DEFAULT_PAGE_LIMIT_BYTES);
+  if (!Number.isFinite(limitBytes) || limitBytes <= 0) {
+    return {
+      content: [{ type: "text", text: "Error: limit_bytes must be a positive number" }],
+      isError: true,
+    };
+  }
+  if (limitBytes > MAX_PAGE_LIMIT_BYTES) {
+    return {
+      content: [{ type: "text", text: `Error: limit_bytes must be <= ${MAX_PAGE_LIMIT_BYTES}` }],
+      isError: true,
+    };
+  }
+
+  let stdoutCursor: ParsedCursor | undefined;
+  let stderrCursor: ParsedCursor | undefined;
+  let filter: GrepFilter | undefined;
+  let jsonPath: JsonPath | undefined;
+  let cleanup: ChunkCleanup;
+  try {
+    stdoutCursor = pagination.cursor ? parseCursor(pagination.cursor) : undefined;
+    stderrCursor = pagination.stderr_cursor ? parseCursor(pagination.stderr_cursor) : undefined;
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error: Invalid cursor format in pagination config: ${error.message}` }],
+      isError: true,
+    };
+  }
+
+  try {
+    ({ filter, jsonPath } = parseStdoutTransforms(input));
+    cleanup = parseChunkCleanup(input);
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error: ${error.message}` }],
+      isError: true,
+    };
+  }
+
+  if (stdoutCursor === undefined && stderrCursor === undefined) {
+    return {
+      content: [{ type: "text", text: "Error: exec_id requires page.cursor or page.stderr_cursor" }],
+      isError: true,
+    };
+  }
+
+  const limitLines = pagination.limit_lines;
+
+  // Read one page of a stream; streams without a cursor (or without output) return nothing
+  const readStreamPage = async (path: string | undefined, total: number, cursor: ParsedCursor | undefined) => {
+    if (cursor === undefined || !path) {
+      const offset = cursor?.type === "bytes" ? cursor.offset : 0;
+      return { chunk: "", encoding: "utf8" as const, mime: undefined, start: offset, end: offset, next: undefined };
+    }
+    const page = await readPage(path, total, cursor, limitBytes, limitLines);
+    return { chunk: page.chunk, encoding: page.encoding, mime: page.mime, start: page.start, end: page.end, next: page.nextCursor };
+  };
+
+  // A filter applies to stdout: the page lists matching lines from the cursor on
+  const grepPage = async (): Promise<GrepResult | undefined> => {
+    if (!filter || stdoutCursor === undefined) return undefined;
+    if (entry.stdoutBytes === 0) return { matches: [], bytesStart: 0, bytesEnd: 0, nextCursor: undefined };
+    const { offset, line } = await resolveCursor(entry.spillFile.path, entry.stdoutBytes, stdoutCursor);
+    return await grepFile(entry.spillFile.path, filter, offset, limitBytes, line);
+  };
+
+  // json_path is re-evaluated against the whole stdout; the cursor is an offset into its result
+  const projectPage = async (): Promise<JsonPathResult | undefined> => {
+    if (!jsonPath || stdoutCursor === undefined) return undefined;
+    if (stdoutCursor.type !== "bytes") throw new Error("json_path results are paged with a 'bytes' cursor");
+    if (entry.stdoutBytes === 0) throw new Error("json_path needs JSON output, but the output is empty");
+    return await projectJsonFile(entry.spillFile.path, jsonPath, stdoutCursor.offset, limitBytes);
+  };
+
+  let stdoutPage: Awaited<ReturnType<typeof readStreamPage>>;
+  let stderrPage: Awaited<ReturnType<typeof readStreamPage>>;
+  let grep: GrepResult | undefined;
+  let projection: JsonPathResult | undefined;
+  try {
+    grep = await grepPage();
+    projection = await projectPage();
+    if (grep) {
+      stdoutPage = { chunk: "", encoding: "utf8", mime: undefined, start: grep.bytesStart, end: grep.bytesEnd, next: grep.nextCursor };
+    } else if (projection) {
+      stdoutPage = { chunk: "", encoding: "utf8", mime: undefined, start: projection.bytesStart, end: projection.bytesEnd, next: projection.nextCursor };
+    } else {
+      stdoutPage = await readStreamPage(entry.spillFile.path, entry.stdoutBytes, stdoutCursor);
+    }
+    stderrPage = await readStreamPage(entry.spillFile.stderrPath, entry.stderrBytes, stderrCursor);
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error reading stored output for exec_id ${entry.id}: ${error.message}` }],
+      isError: true,
+    };
+  }
+
+  const responseObj: any = {
+    exec_id: entry.id,
+    exit_code: entry.exitCode,
+    signal: entry.signal,
+    timed_out: entry.timedOut,
+    duration_ms: entry.durationMs,
+    stdout_chunk: presentChunk(stdoutPage.chunk, stdoutPage.encoding, cleanup),
+    stderr_chunk: presentChunk(stderrPage.chunk, stderrPage.encoding, cleanup),
+    encoding: stdoutPage.encoding,
+    stderr_encoding: stderrPage.encoding,
+    bytes_start: stdoutPage.start,
+    bytes_end: stdoutPage.end,
+    stderr_bytes_start: stderrPage.start,
+    stderr_bytes_end: stderrPage.end,
+    total_bytes: entry.stdoutBytes + entry.stderrBytes,
+    truncated: false,
+    spill_truncated: entry.spillTruncated,
+    next_cursor: stdoutPage.next,
+    stderr_next_cursor: stderrPage.next,
+    mime: stdoutPage.mime ?? detectMimeType(stdoutPage.chunk),
+    line_count: stdoutPage.encoding === "utf8" ? countLines(stdoutPage.chunk) : 0,
+    stderr_count: stderrPage.encoding === "utf8" ? countLines(stderrPage.chunk) : 0,
+    cmdline: entry.cmdline,
+    effective_cmdline: entry.effectiveCmdline,
+    cwd: entry.cwd,
+    limits: entry.limits
+  };
+
+  if (grep) {
+    withGrepMatches(responseObj, grep);
+  }
+  if (projection) {
+    withJsonProjection(responseObj, projection);
+  }
+  if (entry.mergedStreams) {
+    responseObj.merged_streams = true;
+  }
+  if (stdoutPage.next || stderrPage.next) {
+    withOverview(responseObj, entry.overview, cleanup, {
+      stdout: stdoutCursor !== undefined && !grep && !projection && stdoutPage.start === 0,
+      stderr: stderrCursor !== undefined && stderrPage.start === 0
+    });
+  }
+  if (entry.stdoutBytes > 0) {
+    responseObj.spill_uri = entry.spillFile.uri;
+  }
+  if (entry.stderrBytes > 0 && entry.spillFile.stderrUri) {
+    responseObj.stderr_spill_uri = entry.spillFile.stderrUri;
+  }
+
+  // Release once the caller has read every stream to the end
+  if (stdoutCursor !== undefined && !stdoutPage.next) entry.pending.stdout = false;
+  if (stderrCursor !== undefined && !stderrPage.next) entry.pending.stderr = false;
+  if (!entry.pending.stdout && !entry.pending.stderr) {
+    releaseStoredExec(entry.id);
+    // Pinned output outlives its exec_id
+    if (!isSpillPinned(entry.spillFile.path || entry.spillFile.stderrPath!)) {
+      delete responseObj.spill_uri;
+      delete responseObj.stderr_spill_uri;
+    }
+  }
+
+  return {
+    content: [{
+      type: "resource",
+      resource: {
+        uri: `exec://${entry.cmdline[0]}`,
+        text: JSON.stringify(responseObj, null, 2)
+      }
+    }]
+  };
+}
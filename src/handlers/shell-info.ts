@@ -1,5 +1,9 @@
 import { resolve } from "node:path";
 import type { Policy } from "../lib/policy.js";
+import { listJobs } from "../lib/jobs.js";
+import { summarizeJob } from "./shell-jobs.js";
+import { listSessions } from "../lib/sessions.js";
+import { summarizeSession } from "./shell-sessions.js";
 
 export function handleShellInfo(policy: Policy, serverVersion: string) {
   const root = resolve(policy.rootDirectory);
@@ -8,8 +12,23 @@ export function handleShellInfo(policy: Policy, serverVersion: string) {
     server_version: serverVersion,
     command_policy: {
       allow: policy.allow.map(r => r.source),
-      deny: policy.deny.map(r => r.source)
-    }
+      deny: policy.deny.map(r => r.source),
+      ask: policy.ask.map(r => r.source),
+      rules: policy.rules.map(r => ({ name: r.name, action: r.action }))
+    },
+    limits: {
+      timeout_seconds: policy.timeoutMs / 1000,
+      max_output_bytes: policy.maxBytes,
+      max_jobs: policy.maxJobs
+    },
+    env_whitelist: policy.envWhitelist,
+    runtime_policy_changes: {
+      enabled: policy.allowRuntimeChanges,
+      deny_removal_enabled: policy.allowDenyRemoval,
+      history: policy.runtimeChanges
+    },
+    jobs: listJobs().map(summarizeJob),
+    sessions: listSessions().map(summarizeSession)
   };
   return {
     content: [{ type: "text", text: JSON.stringify(info, null, 2) }]
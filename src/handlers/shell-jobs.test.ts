@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { handleShellSpawn, handleShellJobStatus, handleShellJobWait, handleShellJobInput, handleShellJobKill } from './shell-jobs.js';
+import { createPolicyFromConfig, type Policy } from '../lib/policy.js';
+import { listJobs, reapJobs } from '../lib/jobs.js';
+import { spillUriToPath } from '../lib/pagination.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+function parseResponse(response: any) {
+  expect(response.isError).toBeUndefined();
+  return JSON.parse(response.content[0].text);
+}
+
+describe('background jobs', () => {
+  let root: string;
+  let policy: Policy;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'shemcp-jobs-'));
+    policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root },
+      commands: { allow: ['^echo(\\s|$)', '^sleep(\\s|$)', '^read(\\s|$)'], deny: ['^sleep\\s+999'], ask: [], rules: [] },
+      limits: { ...DEFAULT_CONFIG.limits, max_jobs: 2 },
+      environment: { whitelist: ['PATH'] }
+    });
+  });
+
+  afterEach(async () => {
+    await reapJobs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should run a job in the background and report its output when waited on', async () => {
+    const spawned = parseResponse(await handleShellSpawn(
+      { cmd: 'bash', args: ['-c', 'echo out; echo err >&2'] },
+      policy
+    ));
+    expect(spawned.job_id).toMatch(/^job-/);
+    expect(spawned.state).toBe('running');
+
+    const waited = parseResponse(await handleShellJobWait({ job_id: spawned.job_id, timeout_seconds: 5 }));
+    expect(waited.wait_timed_out).toBe(false);
+    expect(waited.state).toBe('exited');
+    expect(waited.exit_code).toBe(0);
+    expect(waited.stdout_tail).toBe('out\n');
+    expect(waited.stderr_tail).toBe('err\n');
+  });
+
+  it('should spill fast output completely', async () => {
+    policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root },
+      commands: { allow: ['^head(\\s|$)'], deny: [], ask: [], rules: [] },
+      environment: { whitelist: ['PATH'] }
+    });
+    const bytes = 50_000_000;
+    const spawned = parseResponse(await handleShellSpawn({ cmd: 'head', args: ['-c', String(bytes), '/dev/zero'] }, policy));
+    const waited = parseResponse(await handleShellJobWait({ job_id: spawned.job_id, timeout_seconds: 60 }));
+    expect(waited.state).toBe('exited');
+    expect(waited.stdout_bytes).toBe(bytes);
+    expect(statSync(spillUriToPath(spawned.spill_uri)).size).toBe(bytes);
+  }, 60_000);
+
+  it('should time out a wait without killing the job, then kill it', async () => {
+    const spawned = parseResponse(await handleShellSpawn({ cmd: 'sleep', args: ['30'] }, policy));
+
+    const waited = parseResponse(await handleShellJobWait({ job_id: spawned.job_id, timeout_seconds: 0.1 }));
+    expect(waited.wait_timed_out).toBe(true);
+    expect(waited.state).toBe('running');
+
+    const killed = parseResponse(await handleShellJobKill({ job_id: spawned.job_id }));
+    expect(killed.signalled).toBe(true);
+
+    const status = parseResponse(await handleShellJobWait({ job_id: spawned.job_id, timeout_seconds: 5 }));
+    expect(status.state).toBe('killed');
+    expect(status.signal).toBe('SIGTERM');
+  });
+
+  it('should apply the same policy checks as shell_exec', async () => {
+    const denied = await handleShellSpawn({ cmd: 'sleep', args: ['999'] }, policy);
+    expect(denied.isError).toBe(true);
+    expect(denied.content[0].text).toContain('Denied by policy');
+
+    const notAllowed = await handleShellSpawn({ cmd: 'bash', args: ['-c', 'curl example.com'] }, policy);
+    expect(notAllowed.isError).toBe(true);
+  });
+
+  it('should enforce the concurrent job limit', async () => {
+    parseResponse(await handleShellSpawn({ cmd: 'sleep', args: ['30'] }, policy));
+    parseResponse(await handleShellSpawn({ cmd: 'sleep', args: ['30'] }, policy));
+    const third = await handleShellSpawn({ cmd: 'sleep', args: ['30'] }, policy);
+    expect(third.isError).toBe(true);
+    expect(third.content[0].text).toContain('Too many running jobs');
+  });
+
+  it('should reject unknown job ids', async () => {
+    const response = await handleShellJobStatus({ job_id: 'job-missing' });
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('Unknown job_id: job-missing');
+  });
+
+  it('should kill running jobs and forget all jobs when reaped', async () => {
+    parseResponse(await handleShellSpawn({ cmd: 'sleep', args: ['30'] }, policy));
+    expect(listJobs().length).toBe(1);
+    await reapJobs();
+    expect(listJobs().length).toBe(0);
+  });
+
+  it('should accept keystrokes for a job on a terminal', async () => {
+    const spawned = parseResponse(await handleShellSpawn(
+      { cmd: 'bash', args: ['-c', 'read -p "Continue? " answer; echo "answer=$answer"'], tty: true },
+      policy
+    ));
+    expect(spawned.tty).toEqual({ rows: 24, cols: 80 });
+
+    const sent = parseResponse(await handleShellJobInput({ job_id: spawned.job_id, stdin: { text: 'yes\r' } }, policy));
+    expect(sent.bytes_written).toBe(4);
+
+    const waited = parseResponse(await handleShellJobWait({ job_id: spawned.job_id, timeout_seconds: 5 }));
+    expect(waited.state).toBe('exited');
+    expect(waited.stdout_tail).toContain('Continue? ');
+    expect(waited.stdout_tail).toContain('answer=yes\n');
+    expect(waited.stdout_tail).not.toContain('\r\n');
+  });
+
+  it('should refuse input for jobs without a terminal', async () => {
+    const spawned = parseResponse(await handleShellSpawn({ cmd: 'sleep', args: ['30'] }, policy));
+    const response = await handleShellJobInput({ job_id: spawned.job_id, stdin: { text: 'x' } }, policy);
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('was not started with tty: true');
+  });
+
+  it('should signal the whole process group of a job', async () => {
+    const spawned = parseResponse(await handleShellSpawn({ cmd: 'bash', args: ['-c', 'sleep 30 & sleep 30'] }, policy));
+    await new Promise(r => setTimeout(r, 200));
+
+    parseResponse(await handleShellJobKill({ job_id: spawned.job_id }));
+    // "close" only fires once every process holding the output pipes has exited
+    const waited = parseResponse(await handleShellJobWait({ job_id: spawned.job_id, timeout_seconds: 5 }));
+    expect(waited.wait_timed_out).toBe(false);
+    expect(waited.state).toBe('killed');
+    expect(waited.signal).toBe('SIGTERM');
+  });
+});
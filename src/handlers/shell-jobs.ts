@@ -0,0 +1,174 @@
+import type { Policy } from "../lib/policy.js";
+import { prepareCommand } from "../lib/prepare.js";
+import type { Approver } from "../lib/approval.js";
+import { type PtyOptions, parsePtyOptions } from "../lib/pty.js";
+import { resolveStdin, readStdinSource } from "../lib/stdin.js";
+import {
+  type Job,
+  startJob,
+  getJob,
+  killJob,
+  writeJobInput,
+  waitForJob,
+  readJobTail
+} from "../lib/jobs.js";
+import { MAX_PAGE_LIMIT_BYTES } from "../lib/pagination.js";
+
+const DEFAULT_TAIL_BYTES = 4000;
+const DEFAULT_WAIT_SECONDS = 30;
+const MAX_WAIT_SECONDS = 600;
+const KILL_SIGNALS = ["SIGTERM", "SIGINT", "SIGHUP", "SIGKILL"] as const;
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
+
+function textResult(obj: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(obj, null, 2) }]
+  };
+}
+
+/**
+ * Summarize a job without reading its output (used by shell_info)
+ */
+export function summarizeJob(job: Job) {
+  const endedAt = job.endedAt ?? Date.now();
+  return {
+    job_id: job.id,
+    state: job.state,
+    pid: job.pid,
+    cmdline: job.cmdline,
+    cwd: job.cwd,
+    started_at: new Date(job.startedAt).toISOString(),
+    duration_ms: endedAt - job.startedAt,
+    exit_code: job.exitCode,
+    signal: job.signal,
+    tty: job.tty ?? null,
+    stdout_bytes: job.stdoutBytes,
+    stderr_bytes: job.stderrBytes,
+    spill_truncated: job.spillTruncated
+  };
+}
+
+async function describeJob(job: Job, input: any) {
+  const tailBytes = Math.max(0, Math.min(MAX_PAGE_LIMIT_BYTES, Math.floor(Number(input?.tail_bytes ?? DEFAULT_TAIL_BYTES)) || 0));
+  return {
+    ...summarizeJob(job),
+    effective_cmdline: job.effectiveCmdline,
+    stdout_tail: await readJobTail(job, "stdout", tailBytes),
+    stderr_tail: await readJobTail(job, "stderr", tailBytes),
+    spill_uri: job.spillFile.uri,
+    stderr_spill_uri: job.spillFile.stderrUri
+  };
+}
+
+function lookupJob(input: any): Job | string {
+  if (typeof input?.job_id !== "string" || input.job_id.length === 0) {
+    return "Error: job_id is required";
+  }
+  try {
+    return getJob(input.job_id);
+  } catch (error: any) {
+    return `Error: ${error.message}`;
+  }
+}
+
+export async function handleShellSpawn(args: any, policy: Policy, approver?: Approver) {
+  const input = args as any;
+
+  let tty: PtyOptions | undefined;
+  try {
+    tty = parsePtyOptions(input);
+  } catch (error: any) {
+    return errorResult(`Error: ${error.message}`);
+  }
+
+  const prepared = await prepareCommand(input, policy, approver);
+  if (!prepared.ok) {
+    return errorResult(prepared.message);
+  }
+  const { cwd, cmdline, execCmd, execArgs, additionalEnv } = prepared.command;
+
+  let timeoutMs: number | undefined;
+  if (input.timeout_seconds !== undefined) {
+    const seconds = Number(input.timeout_seconds);
+    if (!Number.isFinite(seconds) || seconds < 1) {
+      return errorResult("Error: timeout_seconds must be a number >= 1");
+    }
+    timeoutMs = Math.floor(seconds) * 1000;
+  }
+
+  let job: Job;
+  try {
+    job = startJob(execCmd, execArgs, cwd, policy, { cmdline, additionalEnv, timeoutMs, tty });
+  } catch (error: any) {
+    return errorResult(`Error: ${error.message}`);
+  }
+
+  return textResult({
+    ...summarizeJob(job),
+    effective_cmdline: job.effectiveCmdline,
+    spill_uri: job.spillFile.uri,
+    stderr_spill_uri: job.spillFile.stderrUri
+  });
+}
+
+export async function handleShellJobStatus(args: any) {
+  const job = lookupJob(args);
+  if (typeof job === "string") return errorResult(job);
+  return textResult(await describeJob(job, args));
+}
+
+export async function handleShellJobWait(args: any) {
+  const input = args as any;
+  const job = lookupJob(input);
+  if (typeof job === "string") return errorResult(job);
+
+  const requested = Number(input.timeout_seconds ?? DEFAULT_WAIT_SECONDS);
+  if (!Number.isFinite(requested) || requested < 0) {
+    return errorResult("Error: timeout_seconds must be a non-negative number");
+  }
+  const seconds = Math.min(MAX_WAIT_SECONDS, requested);
+
+  const finished = await waitForJob(job.id, seconds * 1000);
+  return textResult({ ...(await describeJob(job, input)), wait_timed_out: !finished });
+}
+
+export async function handleShellJobKill(args: any) {
+  const input = args as any;
+  const job = lookupJob(input);
+  if (typeof job === "string") return errorResult(job);
+
+  const signal = input.signal ?? "SIGTERM";
+  if (!(KILL_SIGNALS as readonly string[]).includes(signal)) {
+    return errorResult(`Error: unsupported signal '${signal}'. Expected one of: ${KILL_SIGNALS.join(", ")}`);
+  }
+
+  const signalled = killJob(job.id, signal as NodeJS.Signals);
+  return textResult({ ...(await describeJob(job, input)), signalled });
+}
+
+export async function handleShellJobInput(args: any, policy: Policy) {
+  const input = args as any;
+  const job = lookupJob(input);
+  if (typeof job === "string") return errorResult(job);
+
+  const closeStdin = input.close_stdin === true;
+  if (input.stdin === undefined && !closeStdin) {
+    return errorResult("Error: stdin or close_stdin is required");
+  }
+
+  try {
+    const data = input.stdin === undefined
+      ? Buffer.alloc(0)
+      : readStdinSource(resolveStdin(input.stdin, policy.maxStdinBytes));
+    writeJobInput(job.id, data, closeStdin);
+    return textResult({ ...summarizeJob(job), bytes_written: data.length, stdin_closed: closeStdin });
+  } catch (error: any) {
+    return errorResult(`Error: ${error.message}`);
+  }
+}
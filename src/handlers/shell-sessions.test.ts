@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { handleShellSessionOpen, handleShellSessionExec, handleShellSessionClose } from './shell-sessions.js';
+import { createPolicyFromConfig, type Policy } from '../lib/policy.js';
+import { listSessions, reapSessions } from '../lib/sessions.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+function parseResponse(response: any) {
+  expect(response.isError).toBeUndefined();
+  return JSON.parse(response.content[0].text);
+}
+
+describe('persistent sessions', () => {
+  let root: string;
+  let policy: Policy;
+
+  beforeEach(() => {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'shemcp-sessions-')));
+    mkdirSync(join(root, 'sub'));
+    policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root },
+      commands: { allow: ['^(cd|export|source|echo|printf|pwd|sleep|exit)(\\s|$)'], deny: ['^echo\\s+forbidden'], ask: [], rules: [] },
+      limits: { ...DEFAULT_CONFIG.limits, kill_grace_seconds: 0.2 },
+      environment: { whitelist: ['PATH'] }
+    });
+  });
+
+  afterEach(async () => {
+    await reapSessions(0);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  async function open() {
+    return parseResponse(await handleShellSessionOpen({}, policy)).session_id as string;
+  }
+
+  it('should keep cwd, exported variables and sourced files between commands', async () => {
+    const id = await open();
+    writeFileSync(join(root, 'sub', 'env.sh'), 'export FROM_FILE=sourced\n');
+
+    const cd = parseResponse(await handleShellSessionExec({ session_id: id, command: 'cd sub && export GREETING=hi' }, policy));
+    expect(cd.exit_code).toBe(0);
+    expect(cd.cwd).toBe(join(root, 'sub'));
+
+    parseResponse(await handleShellSessionExec({ session_id: id, command: 'source env.sh' }, policy));
+    const result = parseResponse(await handleShellSessionExec({ session_id: id, command: 'echo "$GREETING $FROM_FILE"; pwd' }, policy));
+    expect(result.stdout).toBe(`hi sourced\n${join(root, 'sub')}\n`);
+  });
+
+  it('should report exit codes, stderr and output without a trailing newline', async () => {
+    const id = await open();
+    const result = parseResponse(await handleShellSessionExec(
+      { session_id: id, command: 'printf partial; echo oops >&2; (exit 3)' },
+      policy
+    ));
+    expect(result.stdout).toBe('partial');
+    expect(result.stderr).toBe('oops\n');
+    expect(result.exit_code).toBe(3);
+    expect(result.session_state).toBe('idle');
+  });
+
+  it('should check every command against policy and keep the session usable', async () => {
+    const id = await open();
+    const denied = await handleShellSessionExec({ session_id: id, command: 'cd sub && echo forbidden' }, policy);
+    expect(denied.isError).toBe(true);
+    expect(denied.content[0].text).toContain('Denied by policy: echo forbidden');
+
+    const result = parseResponse(await handleShellSessionExec({ session_id: id, command: 'pwd' }, policy));
+    expect(result.stdout).toBe(`${root}\n`);
+  });
+
+  it('should close the session when its cwd leaves the sandbox', async () => {
+    const id = await open();
+    const response = await handleShellSessionExec({ session_id: id, command: 'cd /' }, policy);
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('The session was closed');
+    expect(listSessions().map(s => s.id)).not.toContain(id);
+  });
+
+  it('should close the session when a command times out', async () => {
+    const id = await open();
+    const result = parseResponse(await handleShellSessionExec(
+      { session_id: id, command: 'echo started; sleep 30', timeout_seconds: 1 },
+      policy
+    ));
+    expect(result.timed_out).toBe(true);
+    expect(result.stdout).toBe('started\n');
+    expect(result.session_state).toBe('closed');
+
+    const again = await handleShellSessionExec({ session_id: id, command: 'pwd' }, policy);
+    expect(again.isError).toBe(true);
+    expect(again.content[0].text).toContain('Unknown session_id');
+  });
+
+  it('should report a shell that exits and forget closed sessions', async () => {
+    const exiting = await open();
+    const exited = parseResponse(await handleShellSessionExec({ session_id: exiting, command: 'exit 4' }, policy));
+    expect(exited.exit_code).toBe(4);
+    expect(exited.session_state).toBe('closed');
+
+    const id = await open();
+    const closed = parseResponse(await handleShellSessionClose({ session_id: id }, policy));
+    expect(closed.close_reason).toBe('closed by client');
+    expect(listSessions()).toHaveLength(0);
+  });
+
+  it('should reject a cwd outside the sandbox when opening', async () => {
+    const response = await handleShellSessionOpen({ cwd: '/' }, policy);
+    expect(response.isError).toBe(true);
+  });
+});
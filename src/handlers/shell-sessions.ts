@@ -0,0 +1,117 @@
+import { resolve } from "node:path";
+import type { Policy } from "../lib/policy.js";
+import { ensureCwd, getEffectiveLimits } from "../lib/policy.js";
+import { prepareCommand } from "../lib/prepare.js";
+import type { Approver } from "../lib/approval.js";
+import {
+  type Session,
+  openSession,
+  getSession,
+  runInSession,
+  closeSession
+} from "../lib/sessions.js";
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
+
+function textResult(obj: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(obj, null, 2) }]
+  };
+}
+
+/**
+ * Summarize a session (used by shell_info)
+ */
+export function summarizeSession(session: Session) {
+  return {
+    session_id: session.id,
+    state: session.state,
+    pid: session.pid,
+    cwd: session.cwd,
+    opened_at: new Date(session.openedAt).toISOString(),
+    last_used_at: new Date(session.lastUsedAt).toISOString(),
+    command_count: session.commandCount
+  };
+}
+
+function lookupSession(input: any): Session | string {
+  if (typeof input?.session_id !== "string" || input.session_id.length === 0) {
+    return "Error: session_id is required";
+  }
+  try {
+    return getSession(input.session_id);
+  } catch (error: any) {
+    return `Error: ${error.message}`;
+  }
+}
+
+export async function handleShellSessionOpen(args: any, policy: Policy) {
+  const input = args as any;
+
+  let session: Session;
+  try {
+    const cwd = resolve(policy.rootDirectory, input?.cwd || ".");
+    ensureCwd(cwd, policy);
+    session = openSession(cwd, policy);
+  } catch (error: any) {
+    return errorResult(`Error: ${error.message}`);
+  }
+  return textResult(summarizeSession(session));
+}
+
+export async function handleShellSessionExec(args: any, policy: Policy, approver?: Approver) {
+  const input = args as any;
+  const session = lookupSession(input);
+  if (typeof session === "string") return errorResult(session);
+  if (typeof input.command !== "string" || input.command.trim().length === 0) {
+    return errorResult("Error: command is required");
+  }
+
+  // The command runs as a script in the session's shell, so it gets the same checks
+  // as shell_exec with bash -c: every command in it is matched against policy
+  let prepared: Awaited<ReturnType<typeof prepareCommand>>;
+  try {
+    prepared = await prepareCommand({ cmd: "bash", args: ["-c", input.command], cwd: session.cwd }, policy, approver);
+  } catch (error: any) {
+    return errorResult(`Error: ${error.message}`);
+  }
+  if (!prepared.ok) {
+    return errorResult(prepared.message);
+  }
+
+  const { effectiveTimeoutMs, effectiveMaxBytes } = getEffectiveLimits(input, policy);
+  try {
+    const res = await runInSession(session.id, input.command, policy, effectiveTimeoutMs, effectiveMaxBytes);
+    return textResult({
+      session_id: session.id,
+      exit_code: res.exitCode,
+      signal: res.signal,
+      timed_out: res.timedOut,
+      duration_ms: res.durationMs,
+      stdout: res.stdout,
+      stderr: res.stderr,
+      stdout_bytes: res.stdoutBytes,
+      stderr_bytes: res.stderrBytes,
+      truncated: res.truncated,
+      cwd: res.cwd,
+      session_state: session.state,
+      ...(session.state === "closed" ? { close_reason: session.closeReason } : {})
+    });
+  } catch (error: any) {
+    return errorResult(`Error: ${error.message}`);
+  }
+}
+
+export async function handleShellSessionClose(args: any, policy: Policy) {
+  const session = lookupSession(args);
+  if (typeof session === "string") return errorResult(session);
+
+  // A running command is ended along with the shell
+  await closeSession(session.id, "closed by client", policy.killGraceMs);
+  return textResult({ ...summarizeSession(session), close_reason: session.closeReason });
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { handleShellSetPolicy } from './shell-set-policy.js';
+import { handleShellInfo } from './shell-info.js';
+import { checkCommandPolicy, createPolicyFromConfig, type Policy } from '../lib/policy.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+function parseResponse(response: any) {
+  expect(response.isError).toBeUndefined();
+  return JSON.parse(response.content[0].text);
+}
+
+function errorText(response: any): string {
+  expect(response.isError).toBe(true);
+  return response.content[0].text;
+}
+
+describe('handleShellSetPolicy', () => {
+  let policy: Policy;
+
+  const makePolicy = (security: Partial<typeof DEFAULT_CONFIG.security> = {}) => createPolicyFromConfig({
+    ...DEFAULT_CONFIG,
+    directories: { root: '/tmp' },
+    commands: { allow: ['^git(\\s|$)', '^npm(\\s|$)'], deny: ['^git\\s+push'], ask: [], rules: [] },
+    environment: { whitelist: ['PATH', 'HOME', 'AWS_PROFILE'] },
+    security: { ...DEFAULT_CONFIG.security, ...security }
+  });
+
+  beforeEach(() => {
+    policy = makePolicy();
+  });
+
+  it('should add and remove patterns and record the change with its reason', () => {
+    const result = parseResponse(handleShellSetPolicy({
+      reason: 'Only need read-only git for this task',
+      add_allow: ['^terraform\\s+plan'],
+      remove_allow: ['^npm(\\s|$)'],
+      add_deny: ['^git\\s+commit']
+    }, policy));
+
+    expect(result.applied.reason).toBe('Only need read-only git for this task');
+    expect(result.applied.applied_at).toBeDefined();
+    expect(result.command_policy.allow).toEqual(['^git(\\s|$)', '^terraform\\s+plan']);
+    expect(result.command_policy.deny).toEqual(['^git\\s+push', '^git\\s+commit']);
+    expect(checkCommandPolicy('npm test', policy).allowed).toBe(false);
+    expect(checkCommandPolicy('git commit -m x', policy).allowed).toBe(false);
+    expect(checkCommandPolicy('terraform plan', policy).allowed).toBe(true);
+
+    const info = JSON.parse(handleShellInfo(policy, '0.0.0').content[0].text);
+    expect(info.command_policy.allow).toEqual(['^git(\\s|$)', '^terraform\\s+plan']);
+    expect(info.runtime_policy_changes.history).toEqual([result.applied]);
+  });
+
+  it('should only lower limits and narrow the env whitelist', () => {
+    const result = parseResponse(handleShellSetPolicy({
+      reason: 'Keep output small',
+      timeout_seconds: 30,
+      max_output_bytes: 5000,
+      remove_env: ['AWS_PROFILE']
+    }, policy));
+    expect(result.limits).toEqual({ timeout_seconds: 30, max_output_bytes: 5000 });
+    expect(result.env_whitelist).toEqual(['PATH', 'HOME']);
+
+    expect(errorText(handleShellSetPolicy({ reason: 'more time', timeout_seconds: 60 }, policy)))
+      .toContain('timeout_seconds can only be lowered');
+    expect(errorText(handleShellSetPolicy({ reason: 'more output', max_output_bytes: 6000 }, policy)))
+      .toContain('max_output_bytes can only be lowered');
+    expect(policy.timeoutMs).toBe(30_000);
+  });
+
+  it('should refuse to remove deny patterns by default', () => {
+    const text = errorText(handleShellSetPolicy({ reason: 'need to push', remove_deny: ['^git\\s+push'] }, policy));
+    expect(text).toContain('allow_runtime_deny_removal');
+    expect(checkCommandPolicy('git push origin x', policy).allowed).toBe(false);
+  });
+
+  it('should remove deny patterns when explicitly enabled', () => {
+    policy = makePolicy({ allow_runtime_deny_removal: true });
+    parseResponse(handleShellSetPolicy({ reason: 'release task', remove_deny: ['^git\\s+push'] }, policy));
+    expect(checkCommandPolicy('git push origin x', policy).allowed).toBe(true);
+  });
+
+  it('should refuse all changes when runtime policy changes are disabled', () => {
+    policy = makePolicy({ allow_runtime_policy_changes: false });
+    const text = errorText(handleShellSetPolicy({ reason: 'x', add_deny: ['^rm'] }, policy));
+    expect(text).toContain('allow_runtime_policy_changes = false');
+    expect(policy.deny.map(r => r.source)).toEqual(['^git\\s+push']);
+  });
+
+  it('should reject invalid requests without changing policy', () => {
+    expect(errorText(handleShellSetPolicy({ add_deny: ['^rm'] }, policy))).toContain('reason is required');
+    expect(errorText(handleShellSetPolicy({ reason: 'noop' }, policy))).toContain('No policy changes given');
+    expect(errorText(handleShellSetPolicy({ reason: 'bad', add_deny: ['^rm', '(unclosed'] }, policy))).toContain("Invalid pattern '(unclosed'");
+    expect(errorText(handleShellSetPolicy({ reason: 'missing', remove_allow: ['^make'] }, policy))).toContain('not in the allow list');
+    expect(policy.deny.map(r => r.source)).toEqual(['^git\\s+push']);
+    expect(policy.runtimeChanges).toEqual([]);
+  });
+});
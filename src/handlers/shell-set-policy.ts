@@ -0,0 +1,32 @@
+import type { Policy } from "../lib/policy.js";
+import { applyPolicyChange } from "../lib/policy-changes.js";
+
+export function handleShellSetPolicy(args: any, policy: Policy) {
+  const input = (args ?? {}) as any;
+
+  let applied;
+  try {
+    applied = applyPolicyChange(policy, input);
+  } catch (error: any) {
+    return {
+      content: [{ type: "text", text: `Error: ${error.message}` }],
+      isError: true,
+    };
+  }
+
+  const result = {
+    applied,
+    command_policy: {
+      allow: policy.allow.map(r => r.source),
+      deny: policy.deny.map(r => r.source)
+    },
+    limits: {
+      timeout_seconds: policy.timeoutMs / 1000,
+      max_output_bytes: policy.maxBytes
+    },
+    env_whitelist: policy.envWhitelist
+  };
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }]
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { handleSpillList, handleSpillStat, handleSpillDelete, handleSpillPin } from './spill-files.js';
+import { handleShellExec } from './shell-exec.js';
+import { createPolicyFromConfig, type Policy } from '../lib/policy.js';
+import { spillUriToPath } from '../lib/pagination.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+function parseText(response: any) {
+  expect(response.isError).toBeUndefined();
+  return JSON.parse(response.content[0].text);
+}
+
+describe('spill management tools', () => {
+  let root: string;
+  let policy: Policy;
+  const request = { cmd: 'seq', args: ['1', '1000'], page: { limit_bytes: 3000 } };
+
+  const exec = async (input: any) => {
+    const response: any = await handleShellExec(input, policy);
+    expect(response.isError).toBeUndefined();
+    return JSON.parse(response.content[0].resource.text);
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'shemcp-spills-'));
+    policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root },
+      commands: { allow: ['^seq(\\s|$)'], deny: [], ask: [], rules: [] },
+      environment: { whitelist: ['PATH'] }
+    });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should describe a stored spill from its sidecar', async () => {
+    const first = await exec(request);
+    const stat = parseText(await handleSpillStat({ uri: first.spill_uri }));
+
+    expect(stat).toMatchObject({
+      uri: first.spill_uri,
+      stderr_uri: null,
+      cmdline: ['seq', '1', '1000'],
+      cwd: root,
+      exit_code: 0,
+      stdout_bytes: first.total_bytes,
+      stderr_bytes: 0,
+      pinned: false,
+      live: false,
+      exec_id: first.exec_id,
+      mime: 'text/plain',
+      stdout_lines: 1000
+    });
+
+    const listed = parseText(handleSpillList({}));
+    expect(listed.spills.map((s: any) => s.spill_id)).toContain(stat.spill_id);
+    parseText(handleSpillDelete({ uri: first.spill_uri }));
+  });
+
+  it('should keep a pinned spill after its last page until it is deleted', async () => {
+    const first = await exec(request);
+    expect(parseText(handleSpillPin({ uri: first.spill_uri })).pinned).toBe(true);
+
+    const last = await exec({ ...request, exec_id: first.exec_id, page: { limit_bytes: 3000, cursor: first.next_cursor } });
+    expect(last.next_cursor).toBeUndefined();
+    expect(last.spill_uri).toBe(first.spill_uri);
+    expect(existsSync(spillUriToPath(first.spill_uri))).toBe(true);
+
+    const pinned = parseText(handleSpillList({ pinned_only: true }));
+    expect(pinned.spills.map((s: any) => s.uri)).toContain(first.spill_uri);
+
+    expect(parseText(handleSpillDelete({ uri: first.spill_uri })).deleted).toBe(true);
+    expect(existsSync(spillUriToPath(first.spill_uri))).toBe(false);
+    expect((await handleSpillStat({ uri: first.spill_uri })).isError).toBe(true);
+  });
+
+  it('should release the exec_id of a deleted spill', async () => {
+    const first = await exec(request);
+    parseText(handleSpillDelete({ uri: first.spill_uri }));
+
+    const page: any = await handleShellExec({ ...request, exec_id: first.exec_id, page: { cursor: first.next_cursor } }, policy);
+    expect(page.isError).toBe(true);
+    expect(page.content[0].text).toMatch(/Unknown exec_id/);
+  });
+
+  it('should unpin a spill', async () => {
+    const first = await exec(request);
+    parseText(handleSpillPin({ uri: first.spill_uri }));
+    expect(parseText(handleSpillPin({ uri: first.spill_uri, pinned: false })).pinned).toBe(false);
+    parseText(handleSpillDelete({ uri: first.spill_uri }));
+  });
+
+  it('should reject invalid URIs', () => {
+    expect(handleSpillPin({}).isError).toBe(true);
+    expect(handleSpillDelete({ uri: 'mcp://tmp/notes.txt' }).content[0]!.text).toMatch(/Not a spill file/);
+    expect(handleSpillDelete({ uri: 'mcp://tmp/exec-missing.out' }).content[0]!.text).toMatch(/Spill not found/);
+  });
+});
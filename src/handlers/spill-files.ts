@@ -0,0 +1,160 @@
+import { existsSync, statSync } from "node:fs";
+import {
+  spillUriToPath,
+  readPage,
+  detectMimeType,
+  SPILL_URI_PREFIX,
+  DEFAULT_PAGE_LIMIT_BYTES,
+} from "../lib/pagination.js";
+import {
+  spillDirectory,
+  spillIdOf,
+  spillPaths,
+  listSpillIds,
+  readSpillMeta,
+  writeSpillMeta,
+  deleteSpillMeta,
+} from "../lib/spill-catalog.js";
+import { isSpillLive, notifySpillFilesChanged, deleteSpillFiles } from "../lib/spill-retention.js";
+import { releaseStoredExec } from "../lib/exec-store.js";
+import { getLineIndex } from "../lib/line-index.js";
+import { spillFileSize, isCompressedSpill } from "../lib/spill-frames.js";
+
+function errorResult(text: string) {
+  return {
+    content: [{ type: "text", text }],
+    isError: true,
+  };
+}
+
+function textResult(obj: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(obj, null, 2) }]
+  };
+}
+
+/**
+ * Summarize a spill from its files and sidecar. Returns undefined once its output is gone.
+ * Sizes are read from disk, so they are current for running jobs. stdout_bytes and
+ * stderr_bytes are the output's size; disk_bytes is what compressed spills take up.
+ */
+function describeSpill(spillId: string) {
+  const paths = spillPaths(spillDirectory(), spillId);
+  const stdout = existsSync(paths.stdout) ? statSync(paths.stdout) : undefined;
+  const stderr = existsSync(paths.stderr) ? statSync(paths.stderr) : undefined;
+  if (!stdout && !stderr) return undefined;
+
+  const meta = readSpillMeta(paths.meta);
+  const firstWritten = Math.min(stdout?.birthtimeMs ?? Infinity, stderr?.birthtimeMs ?? Infinity);
+  return {
+    spill_id: spillId,
+    uri: stdout ? `${SPILL_URI_PREFIX}${spillId}.out` : null,
+    stderr_uri: stderr ? `${SPILL_URI_PREFIX}${spillId}.err` : null,
+    cmdline: meta?.cmdline ?? null,
+    effective_cmdline: meta?.effective_cmdline ?? null,
+    cwd: meta?.cwd ?? null,
+    exit_code: meta?.exit_code ?? null,
+    signal: meta?.signal ?? null,
+    stdout_bytes: stdout ? spillFileSize(paths.stdout) : 0,
+    stderr_bytes: stderr ? spillFileSize(paths.stderr) : 0,
+    disk_bytes: (stdout?.size ?? 0) + (stderr?.size ?? 0),
+    compressed: (stdout !== undefined && isCompressedSpill(paths.stdout)) || (stderr !== undefined && isCompressedSpill(paths.stderr)),
+    merged: existsSync(paths.chunks),
+    created_at: meta?.created_at ?? new Date(firstWritten).toISOString(),
+    pinned: meta?.pinned ?? false,
+    live: isSpillLive(paths.stdout) || isSpillLive(paths.stderr),
+    exec_id: meta?.exec_id ?? null,
+    job_id: meta?.job_id ?? null
+  };
+}
+
+/**
+ * Resolve a spill_uri or stderr_spill_uri to its spill id, or an error message
+ */
+function lookupSpill(input: any): string | { error: string } {
+  if (typeof input?.uri !== "string" || input.uri.length === 0) {
+    return { error: "Error: uri is required" };
+  }
+  let spillId: string;
+  try {
+    spillId = spillIdOf(spillUriToPath(input.uri));
+  } catch (error: any) {
+    return { error: `Error: ${error.message}` };
+  }
+  if (!describeSpill(spillId)) {
+    return { error: `Error: Spill not found: ${input.uri}. It may have been read to the end, expired or been swept.` };
+  }
+  return spillId;
+}
+
+export function handleSpillList(args: any) {
+  const pinnedOnly = args?.pinned_only === true;
+  const spills = listSpillIds()
+    .map(describeSpill)
+    .filter(spill => spill !== undefined && (!pinnedOnly || spill.pinned))
+    .sort((a, b) => b!.created_at.localeCompare(a!.created_at));
+  return textResult({ spills, spill_directory: spillDirectory() });
+}
+
+export async function handleSpillStat(args: any) {
+  const spillId = lookupSpill(args);
+  if (typeof spillId !== "string") return errorResult(spillId.error);
+  const spill = describeSpill(spillId)!;
+  const paths = spillPaths(spillDirectory(), spillId);
+
+  // Typed like the first page shell_exec returns for the output
+  let mime: string | null = null;
+  let stdoutLines = 0;
+  if (spill.stdout_bytes > 0) {
+    const head = await readPage(paths.stdout, spill.stdout_bytes, { type: "bytes", offset: 0 }, DEFAULT_PAGE_LIMIT_BYTES);
+    mime = head.mime ?? detectMimeType(head.chunk);
+    stdoutLines = (await getLineIndex(paths.stdout)).lineCount;
+  }
+  return textResult({ ...spill, mime, stdout_lines: stdoutLines });
+}
+
+export function handleSpillDelete(args: any) {
+  const spillId = lookupSpill(args);
+  if (typeof spillId !== "string") return errorResult(spillId.error);
+  const spill = describeSpill(spillId)!;
+  if (spill.live) {
+    return errorResult(`Error: Spill ${spillId} is still being written by a running command${spill.job_id ? `; kill job ${spill.job_id} first` : ""}`);
+  }
+
+  const paths = spillPaths(spillDirectory(), spillId);
+  try {
+    // Unpin first so releasing the exec result does not keep the files
+    deleteSpillMeta(paths.meta);
+    if (spill.exec_id) releaseStoredExec(spill.exec_id);
+    deleteSpillFiles(paths.stdout);
+  } catch (error: any) {
+    return errorResult(`Error deleting spill ${spillId}: ${error.message}`);
+  }
+  notifySpillFilesChanged();
+  return textResult({ spill_id: spillId, deleted: true });
+}
+
+export function handleSpillPin(args: any) {
+  const spillId = lookupSpill(args);
+  if (typeof spillId !== "string") return errorResult(spillId.error);
+  if (args.pinned !== undefined && typeof args.pinned !== "boolean") {
+    return errorResult("Error: pinned must be a boolean");
+  }
+
+  const spill = describeSpill(spillId)!;
+  const { meta } = spillPaths(spillDirectory(), spillId);
+  // Spills without a sidecar (e.g. from an earlier server run) get one recording what is known
+  const known = readSpillMeta(meta) ? {} : {
+    stdout_bytes: spill.stdout_bytes,
+    stderr_bytes: spill.stderr_bytes,
+    created_at: spill.created_at
+  };
+  try {
+    writeSpillMeta(meta, { ...known, pinned: args.pinned ?? true });
+  } catch (error: any) {
+    return errorResult(`Error updating spill ${spillId}: ${error.message}`);
+  }
+  // Pinned spills are listed as resources
+  notifySpillFilesChanged();
+  return textResult(describeSpill(spillId));
+}
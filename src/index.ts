@@ -3,26 +3,40 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   ListToolsRequestSchema,
-  CallToolRequestSchema
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema
 } from "@modelcontextprotocol/sdk/types.js";
 import { createRequire } from "node:module";
 import { fileURLToPath } from "node:url";
-import { realpathSync } from "node:fs";
+import { existsSync, realpathSync } from "node:fs";
 const require = createRequire(import.meta.url);
 // Load package.json without using JSON import attributes (Node 18 compatible)
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const pkg = require("../package.json");
-import type { Config } from "./config/index.js";
-import { ConfigLoader } from "./config/index.js";
+import type { Config, ConfigWatcher } from "./config/index.js";
+import { ConfigLoader, watchConfigFiles } from "./config/index.js";
 
 // Import from new modules
 import { initDebugLog, debugLog } from "./lib/debug.js";
 import { type Policy, createPolicyFromConfig } from "./lib/policy.js";
 import { deriveSandboxRoot } from "./lib/sandbox.js";
-import { tools } from "./tools/definitions.js";
+import { getTools } from "./tools/definitions.js";
 import { handleShellExec } from "./handlers/shell-exec.js";
 import { handleShellInfo } from "./handlers/shell-info.js";
+import { handleShellSetPolicy } from "./handlers/shell-set-policy.js";
 import { handleReadFileChunk } from "./handlers/read-file-chunk.js";
+import { handleSpillList, handleSpillStat, handleSpillDelete, handleSpillPin } from "./handlers/spill-files.js";
+import { handleListResources, handleListResourceTemplates, handleReadResource } from "./handlers/resources.js";
+import { handleShellSpawn, handleShellJobStatus, handleShellJobWait, handleShellJobInput, handleShellJobKill } from "./handlers/shell-jobs.js";
+import { handleShellSessionOpen, handleShellSessionExec, handleShellSessionClose } from "./handlers/shell-sessions.js";
+import { reapJobs } from "./lib/jobs.js";
+import { reapSessions } from "./lib/sessions.js";
+import { type SpillSweeper, startSpillSweeper, onSpillFilesChanged } from "./lib/spill-retention.js";
+import { replayPolicyChanges } from "./lib/policy-changes.js";
+import { createElicitationApprover } from "./lib/approval.js";
+import { configureAudit } from "./lib/audit.js";
 
 // Re-export types and functions for testing and backward compatibility
 export type { Policy, PolicyCheckResult } from "./lib/policy.js";
@@ -30,12 +44,15 @@ export {
   makeRegex,
   createPolicyFromConfig,
   checkCommandPolicy,
+  checkScriptPolicy,
+  sessionApprovalKey,
   allowedCommand,
   filteredEnv,
   ensureCwd,
   getEffectiveLimits
 } from "./lib/policy.js";
-export { buildCmdLine, parseBashWrapper, parseShellWrapper, parseShellCommand, stripEnvPrefix, parseEnvVars } from "./lib/command.js";
+export type { SimpleCommand } from "./lib/command.js";
+export { buildCmdLine, parseBashWrapper, parseShellWrapper, parseShellCommand, parseShellScript, stripEnvPrefix, parseEnvVars } from "./lib/command.js";
 export { tools } from "./tools/definitions.js";
 
 // Initialize debug logging
@@ -59,14 +76,17 @@ debugLog("Environment variables", {
   )
 });
 
+// Derive the sandbox root first: it is where the project's .shemcp.toml lives
+const derivedRoot = deriveSandboxRoot();
+debugLog("Derived sandbox root", { derivedRoot });
+
 // Load configuration from config files
-let config: Config = ConfigLoader.loadConfig();
+let config: Config = ConfigLoader.loadConfig(derivedRoot);
 let policy: Policy = createPolicyFromConfig(config);
+configureAudit(config.audit);
 
 // Override rootDirectory to dynamic detection to avoid shrinking into subfolders
-const derivedRoot = deriveSandboxRoot();
 policy.rootDirectory = derivedRoot;
-debugLog("Derived sandbox root", { derivedRoot });
 
 debugLog("Worktree detection", { enabled: policy.worktreeDetectionEnabled });
 const PKG_VERSION: string = (pkg as any).version ?? "0.0.0";
@@ -79,19 +99,23 @@ export { config, policy };
 export function setConfigForTesting(testConfig: Config) {
   config = testConfig;
   policy = createPolicyFromConfig(testConfig);
+  configureAudit(testConfig.audit);
 }
 
 /** ---------- MCP server & tools ---------- */
 export const server = new Server(
   { name: config.server.name, version: PKG_VERSION },
-  { capabilities: { tools: {} } }
+  { capabilities: { tools: { listChanged: true }, resources: { listChanged: true } } }
 );
 debugLog("Server instance created");
 
+// Commands matching ask rules are confirmed with the user via MCP elicitation
+const approver = createElicitationApprover(server);
+
 /** ---------- Request handlers ---------- */
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   debugLog("ListTools request received");
-  return { tools };
+  return { tools: getTools(config) };
 });
 
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
@@ -99,20 +123,140 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   debugLog("CallTool request received", { tool: name });
 
   if (name === "shell_exec") {
-    return await handleShellExec(args, policy);
+    return await handleShellExec(args, policy, approver);
   }
 
   if (name === "shell_info") {
     return handleShellInfo(policy, PKG_VERSION);
   }
 
+  if (name === "shell_set_policy") {
+    return handleShellSetPolicy(args, policy);
+  }
+
   if (name === "read_file_chunk") {
     return await handleReadFileChunk(args);
   }
 
+  if (name === "spill_list") {
+    return handleSpillList(args);
+  }
+
+  if (name === "spill_stat") {
+    return await handleSpillStat(args);
+  }
+
+  if (name === "spill_delete") {
+    return handleSpillDelete(args);
+  }
+
+  if (name === "spill_pin") {
+    return handleSpillPin(args);
+  }
+
+  if (name === "shell_spawn") {
+    return await handleShellSpawn(args, policy, approver);
+  }
+
+  if (name === "shell_job_status") {
+    return await handleShellJobStatus(args);
+  }
+
+  if (name === "shell_job_wait") {
+    return await handleShellJobWait(args);
+  }
+
+  if (name === "shell_job_input") {
+    return await handleShellJobInput(args, policy);
+  }
+
+  if (name === "shell_job_kill") {
+    return await handleShellJobKill(args);
+  }
+
+  if (name === "shell_session_open") {
+    return await handleShellSessionOpen(args, policy);
+  }
+
+  if (name === "shell_session_exec") {
+    return await handleShellSessionExec(args, policy, approver);
+  }
+
+  if (name === "shell_session_close") {
+    return await handleShellSessionClose(args, policy);
+  }
+
   throw new Error(`Unknown tool: ${name}`);
 });
 
+// Live spill files (stored exec results and job output) are exposed as resources
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  debugLog("ListResources request received");
+  return await handleListResources();
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return handleListResourceTemplates();
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  debugLog("ReadResource request received", { uri: request.params.uri });
+  return await handleReadResource(request.params.uri);
+});
+
+/** ---------- Config hot-reload ---------- */
+
+/**
+ * Reload the config files and swap in a new policy. Session state (sandbox root,
+ * discovered worktrees, session approvals, shell_set_policy changes) carries over. An invalid config is
+ * rejected and the current policy kept.
+ * @returns true if the new config was applied
+ */
+export async function reloadConfig(): Promise<boolean> {
+  let next: Config;
+  let nextPolicy: Policy;
+  try {
+    next = ConfigLoader.loadConfig(derivedRoot, { strict: true });
+    // Compiling the policy rejects invalid regexes
+    nextPolicy = createPolicyFromConfig(next);
+    nextPolicy.rootDirectory = policy.rootDirectory;
+    nextPolicy.allowedWorktrees = policy.allowedWorktrees;
+    nextPolicy.sessionApprovals = policy.sessionApprovals;
+    replayPolicyChanges(nextPolicy, policy.runtimeChanges);
+  } catch (error: any) {
+    debugLog("Config reload rejected, keeping previous policy", { error: error.message });
+    return false;
+  }
+
+  const toolsChanged = JSON.stringify(getTools(next)) !== JSON.stringify(getTools(config));
+  config = next;
+  policy = nextPolicy;
+  configureAudit(next.audit);
+  debugLog("Config reloaded", { allow: next.commands.allow.length, deny: next.commands.deny.length, toolsChanged });
+
+  if (toolsChanged) {
+    try {
+      await server.sendToolListChanged();
+    } catch (error: any) {
+      debugLog("Failed to send tools/list_changed", { error: error.message });
+    }
+  }
+  return true;
+}
+
+/**
+ * Watch the existing user/system config files and the project config for changes
+ */
+function startConfigWatcher(): ConfigWatcher {
+  const paths = ConfigLoader.getExistingConfigPaths();
+  const projectConfigPath = ConfigLoader.getProjectConfigPath(derivedRoot);
+  if (existsSync(projectConfigPath)) {
+    paths.push(projectConfigPath);
+  }
+  debugLog("Watching config files", { paths });
+  return watchConfigFiles(paths, () => { void reloadConfig(); });
+}
+
 /** Start stdio transport */
 export async function startServer() {
   debugLog("Starting stdio transport");
@@ -126,6 +270,8 @@ export async function startServer() {
 // Resolve symlinks in argv[1] to handle npx bin symlinks
 if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
   let serverInstance: { server: typeof server; transport: StdioServerTransport } | null = null;
+  let configWatcher: ConfigWatcher | null = null;
+  let spillSweeper: SpillSweeper | null = null;
 
   // Track if we're already shutting down
   let isShuttingDown = false;
@@ -142,6 +288,23 @@ if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.me
 
     // Don't log to stderr/stdout during shutdown to avoid protocol issues
     // Just try to clean up silently
+    configWatcher?.close();
+    spillSweeper?.close();
+
+    try {
+      await reapJobs();
+      debugLog("Background jobs reaped");
+    } catch (error) {
+      debugLog("Error reaping background jobs", error);
+    }
+
+    try {
+      await reapSessions(policy.killGraceMs);
+      debugLog("Sessions closed");
+    } catch (error) {
+      debugLog("Error closing sessions", error);
+    }
+
     try {
       if (serverInstance?.transport) {
         debugLog("Attempting to close transport");
@@ -204,6 +367,14 @@ if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.me
   startServer()
     .then((instance) => {
       serverInstance = instance;
+      configWatcher = startConfigWatcher();
+      // Delete spill files left behind by abandoned pagination, now and periodically
+      spillSweeper = startSpillSweeper(() => policy.spillLimits);
+      onSpillFilesChanged(() => {
+        server.sendResourceListChanged().catch((error: any) => {
+          debugLog("Failed to send resources/list_changed", { error: error.message });
+        });
+      });
       debugLog("Server started successfully");
       // Don't set up server close handler - let signals handle shutdown
     })
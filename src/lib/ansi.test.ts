@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { stripAnsi, createTerminalOutputFilter, normalizeNewlines, cleanChunk, parseChunkCleanup } from './ansi.js';
+
+describe('stripAnsi', () => {
+  it('should remove colors, cursor movement and window titles', () => {
+    expect(stripAnsi('\x1b[1;31merror\x1b[0m: \x1b[2Kdone')).toBe('error: done');
+    expect(stripAnsi('\x1b]0;title\x07prompt\x1b]8;;https://x\x1b\\link\x1b]8;;\x1b\\')).toBe('promptlink');
+    expect(stripAnsi('\x1b(Bplain\x1b=')).toBe('plain');
+  });
+});
+
+describe('normalizeNewlines', () => {
+  it('should collapse progress redraws to their final text', () => {
+    expect(normalizeNewlines('Downloading 10%\rDownloading 55%\rDone\nnext\r\n')).toBe('Done\nnext\n');
+    expect(normalizeNewlines('50%\r')).toBe('50%');
+    expect(normalizeNewlines('plain\n')).toBe('plain\n');
+  });
+});
+
+describe('cleanChunk', () => {
+  it('should apply only the enabled options', () => {
+    const text = '\x1b[32m10%\x1b[0m\r\x1b[2K\x1b[32mok\x1b[0m\r\n';
+    expect(cleanChunk(text, parseChunkCleanup({}))).toBe('ok\n');
+    expect(cleanChunk(text, parseChunkCleanup({ normalize_newlines: false }))).toBe('10%\rok\r\n');
+    expect(cleanChunk(text, parseChunkCleanup({ ansi_strip: false, normalize_newlines: false }))).toBe(text);
+  });
+
+  it('should reject options that are not booleans', () => {
+    expect(() => parseChunkCleanup({ ansi_strip: 'yes' })).toThrow('ansi_strip must be a boolean');
+  });
+});
+
+describe('createTerminalOutputFilter', () => {
+  const run = (chunks: Buffer[]) => {
+    const filter = createTerminalOutputFilter();
+    return Buffer.concat([...chunks.map(c => filter.push(c)), filter.flush()]).toString('utf8');
+  };
+
+  it('should strip sequences and CRLF pairs split across chunks', () => {
+    const chunks = ['\x1b[3', '2mok\x1b[0m\r', '\nnext\r\n'].map(s => Buffer.from(s));
+    expect(run(chunks)).toBe('ok\nnext\n');
+  });
+
+  it('should keep multi-byte characters split across chunks', () => {
+    const bytes = Buffer.from('héllo\r\n');
+    expect(run([bytes.subarray(0, 2), bytes.subarray(2)])).toBe('héllo\n');
+  });
+
+  it('should keep a lone carriage return and flush an unfinished sequence', () => {
+    expect(run([Buffer.from('50%\r100%\x1b[')])).toBe('50%\r100%\x1b[');
+  });
+});
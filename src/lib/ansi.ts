@@ -0,0 +1,105 @@
+import { StringDecoder } from "node:string_decoder";
+
+/** ---------- Terminal Output Normalization ---------- */
+
+// CSI (colors, cursor movement), OSC (window titles, hyperlinks), DCS/SOS/PM/APC strings,
+// and two-character escapes such as ESC ( B or ESC =
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[PX^_][^\x1b]*\x1b\\|\x1b[ -/]*[0-OQ-WYZ\\`a-~]/g;
+const ANSI_AT_START = new RegExp(`^(?:${ANSI_PATTERN.source})`);
+
+// An escape sequence longer than this is not waited for across chunks
+const MAX_PENDING_ESCAPE = 256;
+
+/**
+ * Remove ANSI escape sequences from text
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+export type ChunkCleanup = {
+  ansiStrip: boolean;           // remove ANSI escape sequences
+  normalizeNewlines: boolean;   // CRLF to LF, and carriage-return redraws collapsed to their final text
+};
+
+/**
+ * Read the ansi_strip and normalize_newlines options (both default to true).
+ * Throws with a client-facing message if they are not booleans.
+ */
+export function parseChunkCleanup(input: any): ChunkCleanup {
+  for (const name of ["ansi_strip", "normalize_newlines"]) {
+    if (input?.[name] !== undefined && typeof input[name] !== "boolean") {
+      throw new Error(`${name} must be a boolean`);
+    }
+  }
+  return {
+    ansiStrip: input?.ansi_strip !== false,
+    normalizeNewlines: input?.normalize_newlines !== false,
+  };
+}
+
+/**
+ * Collapse carriage-return redraws (progress bars, spinners) within each line to the
+ * text after the last carriage return, and turn CRLF into LF
+ */
+export function normalizeNewlines(text: string): string {
+  if (!text.includes("\r")) return text;
+  return text
+    .replace(/\r+\n/g, "\n")
+    .split("\n")
+    .map(line => {
+      if (!line.includes("\r")) return line;
+      const redraws = line.split("\r").filter(segment => segment.length > 0);
+      return redraws[redraws.length - 1] ?? "";
+    })
+    .join("\n");
+}
+
+/**
+ * Clean a text page for display. Only the returned text changes: byte offsets and
+ * cursors keep referring to the raw output in the spill file.
+ */
+export function cleanChunk(text: string, cleanup: ChunkCleanup): string {
+  let cleaned = cleanup.ansiStrip ? stripAnsi(text) : text;
+  if (cleanup.normalizeNewlines) cleaned = normalizeNewlines(cleaned);
+  return cleaned;
+}
+
+export type OutputFilter = {
+  push(chunk: Buffer): Buffer;
+  flush(): Buffer;
+};
+
+/**
+ * Streaming filter for pseudo-terminal output: strips ANSI escape sequences and turns
+ * the terminal's CRLF line endings into LF. Escape sequences, CRLF pairs and UTF-8
+ * characters split across chunks are held back until the next chunk.
+ */
+export function createTerminalOutputFilter(): OutputFilter {
+  const decoder = new StringDecoder("utf8");
+  let pending = "";
+
+  const normalize = (text: string) => Buffer.from(stripAnsi(text).replace(/\r\n/g, "\n"), "utf8");
+
+  return {
+    push(chunk: Buffer): Buffer {
+      let text = pending + decoder.write(chunk);
+      pending = "";
+
+      const lastEscape = text.lastIndexOf("\x1b");
+      if (lastEscape !== -1 && text.length - lastEscape < MAX_PENDING_ESCAPE && !ANSI_AT_START.test(text.slice(lastEscape))) {
+        pending = text.slice(lastEscape);
+        text = text.slice(0, lastEscape);
+      } else if (text.endsWith("\r")) {
+        pending = "\r";
+        text = text.slice(0, -1);
+      }
+      return normalize(text);
+    },
+    flush(): Buffer {
+      const text = pending + decoder.end();
+      pending = "";
+      return normalize(text);
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Interactive Approval (ask verdicts) ---------- */
+
+// How long to wait for the user to answer an approval prompt
+export const APPROVAL_TIMEOUT_MS = 5 * 60_000;
+
+export type ApprovalRequest = {
+  command: string;              // unwrapped command line
+  cwd: string;
+  segments: string[];           // the commands in it that matched ask rules
+  matchedRule: string | undefined;
+};
+
+export type ApprovalDecision =
+  | { approved: true; remember: boolean }  // remember: approve these commands for the rest of the session
+  | { approved: false; reason: string };
+
+export type Approver = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+function approvalMessage(request: ApprovalRequest): string {
+  const lines = [
+    "Run this command?",
+    "",
+    `Command: ${request.command}`,
+    `Working directory: ${request.cwd}`,
+  ];
+  if (request.segments.length > 1 || request.segments[0] !== request.command) {
+    lines.push(`Needs approval: ${request.segments.join("; ")}`);
+  }
+  if (request.matchedRule) {
+    lines.push(`Matched ask rule: ${request.matchedRule}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Build an approver that asks the connected client via MCP elicitation.
+ * Declining, cancelling, a missing elicitation capability and request errors all deny.
+ */
+export function createElicitationApprover(server: Server): Approver {
+  return async (request) => {
+    if (!server.getClientCapabilities()?.elicitation) {
+      return { approved: false, reason: "the client does not support elicitation" };
+    }
+
+    let result: Awaited<ReturnType<Server["elicitInput"]>>;
+    try {
+      result = await server.elicitInput({
+        message: approvalMessage(request),
+        requestedSchema: {
+          type: "object",
+          properties: {
+            remember: {
+              type: "boolean",
+              title: "Remember for this session",
+              description: "Allow these exact commands without asking again until the server restarts",
+              default: false,
+            },
+          },
+        },
+      }, { timeout: APPROVAL_TIMEOUT_MS });
+    } catch (error: any) {
+      debugLog("Approval request failed", { error: error.message });
+      return { approved: false, reason: `approval request failed: ${error.message}` };
+    }
+
+    debugLog("Approval answered", { command: request.command, action: result.action });
+    if (result.action === "accept") {
+      return { approved: true, remember: result.content?.remember === true };
+    }
+    return { approved: false, reason: result.action === "decline" ? "declined by the user" : "cancelled by the user" };
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AUDIT_SESSION_ID, configureAudit, writeAuditEntry, type AuditEntry } from './audit.js';
+import { handleShellExec } from '../handlers/shell-exec.js';
+import { createPolicyFromConfig } from './policy.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+const entry: AuditEntry = {
+  tool: 'shell_exec',
+  cmdline: ['echo', 'hi'],
+  effective_cmdline: ['echo', 'hi'],
+  cwd: '/repo',
+  verdict: 'allow',
+  reason: 'Command matches allow rule',
+  matched_rule: '^echo(\\s|$)',
+  rule_type: 'allow',
+  exit_code: 0,
+  signal: null,
+  timed_out: false,
+  duration_ms: 3,
+  stdout_bytes: 3,
+  stderr_bytes: 0
+};
+
+function readEntries(path: string) {
+  return readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('Audit log', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-audit-'));
+    logPath = join(dir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    configureAudit(DEFAULT_CONFIG.audit);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write nothing while disabled', () => {
+    configureAudit({ ...DEFAULT_CONFIG.audit, enabled: false, path: logPath });
+    writeAuditEntry(entry);
+    expect(existsSync(logPath)).toBe(false);
+  });
+
+  it('should append one JSON line per entry with timestamp and session id', () => {
+    configureAudit({ ...DEFAULT_CONFIG.audit, enabled: true, path: logPath });
+    writeAuditEntry(entry);
+    writeAuditEntry({ ...entry, verdict: 'deny', exit_code: null });
+
+    const entries = readEntries(logPath);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ ...entry, session_id: AUDIT_SESSION_ID });
+    expect(Date.parse(entries[0].timestamp)).not.toBeNaN();
+    expect(entries[1].verdict).toBe('deny');
+  });
+
+  it('should rotate by size and keep max_files rotated files', () => {
+    const lineBytes = JSON.stringify({ timestamp: new Date().toISOString(), session_id: AUDIT_SESSION_ID, ...entry }).length + 1;
+    configureAudit({ enabled: true, path: logPath, max_bytes: lineBytes * 2, max_files: 2 });
+    for (let i = 0; i < 7; i++) {
+      writeAuditEntry(entry);
+    }
+
+    expect(readEntries(logPath)).toHaveLength(1);
+    expect(readEntries(`${logPath}.1`)).toHaveLength(2);
+    expect(readEntries(`${logPath}.2`)).toHaveLength(2);
+    expect(existsSync(`${logPath}.3`)).toBe(false);
+  });
+
+  it('should record shell_exec outcomes and denials', async () => {
+    configureAudit({ ...DEFAULT_CONFIG.audit, enabled: true, path: logPath });
+    const policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root: dir },
+      commands: { allow: ['^echo(\\s|$)'], deny: [], ask: [], rules: [] },
+      environment: { whitelist: ['PATH'] }
+    });
+
+    await handleShellExec({ cmd: 'bash', args: ['-c', 'echo hello'], page: {} }, policy);
+    await handleShellExec({ cmd: 'curl', args: ['evil'], page: {} }, policy);
+
+    const [allowed, denied] = readEntries(logPath);
+    expect(allowed).toMatchObject({
+      tool: 'shell_exec',
+      cmdline: ['bash', '-c', 'echo hello'],
+      effective_cmdline: ['/bin/bash', '-o', 'pipefail', '-o', 'errexit', '-c', 'echo hello'],
+      cwd: dir,
+      verdict: 'allow',
+      matched_rule: '^echo(\\s|$)',
+      rule_type: 'allow',
+      exit_code: 0,
+      signal: null,
+      timed_out: false,
+      stdout_bytes: 6,
+      stderr_bytes: 0
+    });
+    expect(typeof allowed.duration_ms).toBe('number');
+    expect(denied).toMatchObject({
+      cmdline: ['curl', 'evil'],
+      effective_cmdline: null,
+      verdict: 'deny',
+      reason: 'Command does not match any allow rule',
+      matched_rule: null,
+      exit_code: null
+    });
+  });
+});
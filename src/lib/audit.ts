@@ -0,0 +1,90 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import { randomUUID } from "node:crypto";
+import type { Config } from "../config/index.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Audit Log ---------- */
+
+// Identifies this server process in audit entries
+export const AUDIT_SESSION_ID = randomUUID();
+
+export type AuditEntry = {
+  tool: string;
+  cmdline: string[];                    // original cmd + args as sent by the client
+  effective_cmdline: string[] | null;   // what was spawned; null when nothing ran
+  cwd: string | null;
+  verdict: "allow" | "deny";
+  reason: string;
+  matched_rule: string | null;
+  rule_type: "allow" | "deny" | "ask" | null;
+  exit_code: number | null;
+  signal: string | null;
+  timed_out: boolean | null;
+  duration_ms: number | null;
+  stdin_bytes: number | null;
+  stdout_bytes: number | null;
+  stderr_bytes: number | null;
+};
+
+type AuditSettings = {
+  path: string;
+  maxBytes: number;   // rotate once the active file would grow past this
+  maxFiles: number;   // rotated files to keep (audit.jsonl.1 ... audit.jsonl.N)
+};
+
+let settings: AuditSettings | undefined;
+
+function expandHome(filePath: string): string {
+  return filePath === "~" || filePath.startsWith("~/") ? join(homedir(), filePath.slice(1)) : filePath;
+}
+
+/**
+ * Enable or disable audit logging from the [audit] config section
+ */
+export function configureAudit(audit: Config["audit"]): void {
+  settings = audit.enabled
+    ? { path: expandHome(audit.path), maxBytes: audit.max_bytes, maxFiles: audit.max_files }
+    : undefined;
+  debugLog("Audit log configured", { enabled: audit.enabled, path: settings?.path });
+}
+
+/**
+ * Shift audit.jsonl -> audit.jsonl.1 -> ... -> audit.jsonl.N, dropping the oldest
+ */
+function rotate(path: string, maxFiles: number): void {
+  rmSync(`${path}.${maxFiles}`, { force: true });
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) {
+      renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+    }
+  }
+  renameSync(path, `${path}.1`);
+}
+
+/**
+ * Append one JSON line to the audit log, rotating by size first.
+ * Audit failures are logged to the debug log and never fail the command.
+ */
+export function writeAuditEntry(entry: AuditEntry): void {
+  if (!settings) return;
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    session_id: AUDIT_SESSION_ID,
+    ...entry,
+  }) + "\n";
+
+  try {
+    mkdirSync(dirname(settings.path), { recursive: true });
+    if (existsSync(settings.path)) {
+      const size = statSync(settings.path).size;
+      if (size > 0 && size + Buffer.byteLength(line) > settings.maxBytes) {
+        rotate(settings.path, settings.maxFiles);
+      }
+    }
+    appendFileSync(settings.path, line, { mode: 0o600 });
+  } catch (error: any) {
+    debugLog("Failed to write audit entry", { path: settings.path, error: error.message });
+  }
+}
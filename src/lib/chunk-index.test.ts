@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { openChunkIndex, hasChunkIndex, readChunkRecords, annotateRange } from './chunk-index.js';
+
+describe('chunk index', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-chunks-'));
+    file = join(dir, 'exec-test.out');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeMerged = async () => {
+    writeFileSync(file, 'out 1\nerr 1\nout 2\n');
+    const index = openChunkIndex(file);
+    index.record('stdout', 0, 6, 0);
+    index.record('stderr', 6, 6, 12);
+    index.record('stdout', 12, 6, 30);
+    await index.close();
+  };
+
+  it('should write one record per chunk next to the spill file', async () => {
+    await writeMerged();
+    expect(existsSync(join(dir, 'exec-test.chunks'))).toBe(true);
+    expect(hasChunkIndex(file)).toBe(true);
+    expect(await readChunkRecords(file, 0, 18)).toEqual([
+      { stream: 'stdout', offset: 0, bytes: 6, t_ms: 0 },
+      { stream: 'stderr', offset: 6, bytes: 6, t_ms: 12 },
+      { stream: 'stdout', offset: 12, bytes: 6, t_ms: 30 }
+    ]);
+  });
+
+  it('should clip chunks to the requested range', async () => {
+    await writeMerged();
+    const chunks = await annotateRange(file, 3, 9);
+    expect(chunks.map(c => [c.stream, c.t_ms, c.bytes_start, c.bytes_end, c.data.toString()])).toEqual([
+      ['stdout', 0, 3, 6, ' 1\n'],
+      ['stderr', 12, 6, 9, 'err']
+    ]);
+  });
+
+  it('should not create an index for output that never arrived', async () => {
+    await openChunkIndex(file).close();
+    expect(hasChunkIndex(file)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { createReadStream, existsSync } from "node:fs";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import { finished } from "node:stream";
+import { openSpillWriter } from "./spill-frames.js";
+import { spillIdOf, spillPaths } from "./spill-catalog.js";
+import { readFileBytes } from "./pagination.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Merged Output Chunk Index ---------- */
+
+// With merge_streams, stdout and stderr share one spill file in the order they arrived.
+// Its chunk index (<id>.chunks) has one JSON line per chunk, recording the stream it
+// came from, where it starts in the merged output and when it arrived.
+export type OutputStream = "stdout" | "stderr";
+
+export type ChunkRecord = {
+  stream: OutputStream;
+  offset: number;         // byte offset in the merged output
+  bytes: number;
+  t_ms: number;           // milliseconds after the command started
+};
+
+export type AnnotatedChunk = {
+  stream: OutputStream;
+  t_ms: number;
+  bytes_start: number;    // the part of the chunk within the requested range
+  bytes_end: number;
+  data: Buffer;
+};
+
+export type ChunkIndexWriter = {
+  record(stream: OutputStream, offset: number, bytes: number, tMs: number): void;
+  close(): Promise<void>;
+};
+
+/**
+ * Path of the chunk index that belongs to a merged spill file
+ */
+export function chunkIndexPath(spillPath: string): string {
+  return spillPaths(dirname(spillPath), spillIdOf(spillPath)).chunks;
+}
+
+export function hasChunkIndex(spillPath: string): boolean {
+  return existsSync(chunkIndexPath(spillPath));
+}
+
+/**
+ * Open the chunk index of a merged spill file for writing. A failed write loses the
+ * annotations, not the output.
+ */
+export function openChunkIndex(spillPath: string): ChunkIndexWriter {
+  const writer = openSpillWriter(chunkIndexPath(spillPath), "none");
+  writer.on("error", (e) => debugLog("Failed to write chunk index", { spillPath, error: e }));
+  return {
+    record(stream, offset, bytes, tMs) {
+      if (writer.destroyed) return;
+      writer.write(`${JSON.stringify({ stream, offset, bytes, t_ms: tMs })}\n`);
+    },
+    close() {
+      return new Promise<void>((resolve) => {
+        writer.end();
+        finished(writer, () => resolve());
+      });
+    },
+  };
+}
+
+/**
+ * Records of the chunks that overlap bytes start to end of the merged output
+ */
+export async function readChunkRecords(spillPath: string, start: number, end: number): Promise<ChunkRecord[]> {
+  const records: ChunkRecord[] = [];
+  const input = createReadStream(chunkIndexPath(spillPath));
+  try {
+    for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+      if (line.length === 0) continue;
+      const record = JSON.parse(line) as ChunkRecord;
+      if (record.offset >= end) break;
+      if (record.offset + record.bytes > start) records.push(record);
+    }
+  } finally {
+    input.destroy();
+  }
+  return records;
+}
+
+/**
+ * Split bytes start to end of a merged spill file into the chunks they came from
+ */
+export async function annotateRange(spillPath: string, start: number, end: number): Promise<AnnotatedChunk[]> {
+  const data = await readFileBytes(spillPath, start, end);
+  return (await readChunkRecords(spillPath, start, end)).map((record) => {
+    const from = Math.max(record.offset, start);
+    const to = Math.min(record.offset + record.bytes, end);
+    return {
+      stream: record.stream,
+      t_ms: record.t_ms,
+      bytes_start: from,
+      bytes_end: to,
+      data: data.subarray(from - start, to - start),
+    };
+  });
+}
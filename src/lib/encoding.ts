@@ -0,0 +1,89 @@
+/** ---------- Output Encoding ---------- */
+
+export type ChunkEncoding = "utf8" | "base64";
+
+export type EncodedChunk = {
+  chunk: string;
+  encoding: ChunkEncoding;
+  end: number;            // bytes of the input the chunk covers
+};
+
+// Like git, look for NUL bytes in the first 8000 bytes
+const BINARY_SAMPLE_BYTES = 8000;
+// Share of undecodable characters above which text is treated as binary
+const MAX_INVALID_UTF8_RATIO = 0.1;
+// Bytes of the start of a stream that sniffMimeType looks at
+export const MIME_SNIFF_BYTES = 512;
+
+/**
+ * Length of data without a multi-byte UTF-8 character cut off at its end.
+ * Data that holds nothing but a partial character is returned whole so pages
+ * always make progress.
+ */
+export function utf8SafeLength(data: Buffer): number {
+  // Find the lead byte of the last character (at most 3 continuation bytes follow it)
+  let lead = data.length - 1;
+  while (lead >= 0 && lead >= data.length - 4 && (data[lead]! & 0xc0) === 0x80) lead--;
+  if (lead < 0 || lead < data.length - 4) return data.length;
+
+  const byte = data[lead]!;
+  const size = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+  if (data.length - lead >= size || lead === 0) return data.length;
+  return lead;
+}
+
+/**
+ * Binary content has NUL bytes or too many bytes that are not valid UTF-8
+ */
+export function isBinary(data: Buffer): boolean {
+  const sample = data.subarray(0, BINARY_SAMPLE_BYTES);
+  if (sample.includes(0)) return true;
+  if (sample.length === 0) return false;
+
+  const text = sample.subarray(0, utf8SafeLength(sample)).toString("utf8");
+  let invalid = 0;
+  for (let i = text.indexOf("\uFFFD"); i !== -1; i = text.indexOf("\uFFFD", i + 1)) invalid++;
+  return invalid / text.length > MAX_INVALID_UTF8_RATIO;
+}
+
+const SIGNATURES: { mime: string; offset?: number; bytes: number[] }[] = [
+  { mime: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mime: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mime: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mime: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mime: "application/zstd", bytes: [0x28, 0xb5, 0x2f, 0xfd] },
+  { mime: "application/x-bzip2", bytes: [0x42, 0x5a, 0x68] },
+  { mime: "application/x-xz", bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { mime: "application/x-7z-compressed", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: "application/x-tar", offset: 257, bytes: [0x75, 0x73, 0x74, 0x61, 0x72] },
+  { mime: "application/x-elf", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { mime: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { mime: "application/x-sqlite3", bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66] },
+];
+
+/**
+ * MIME type of binary content from the magic number at the start of its stream
+ */
+export function sniffMimeType(head: Buffer): string {
+  for (const { mime, offset = 0, bytes } of SIGNATURES) {
+    if (head.length >= offset + bytes.length && bytes.every((b, i) => head[offset + i] === b)) {
+      return mime;
+    }
+  }
+  return "application/octet-stream";
+}
+
+/**
+ * Encode a page of output. Text is cut back to a complete UTF-8 character unless
+ * the page ends the stream; binary content is returned whole as base64.
+ */
+export function encodeChunk(data: Buffer, atEndOfStream: boolean): EncodedChunk {
+  if (isBinary(data)) {
+    return { chunk: data.toString("base64"), encoding: "base64", end: data.length };
+  }
+  const end = atEndOfStream ? data.length : utf8SafeLength(data);
+  return { chunk: data.subarray(0, end).toString("utf8"), encoding: "utf8", end };
+}
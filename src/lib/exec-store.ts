@@ -0,0 +1,116 @@
+import { existsSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import type { SpillFile } from "./pagination.js";
+import type { OutputOverview } from "./summary.js";
+import { notifySpillFilesChanged, retainSpillFiles, releaseSpillFiles } from "./spill-retention.js";
+import { writeSpillMeta } from "./spill-catalog.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Exec Result Store ---------- */
+
+// How long a finished command's spill files stay addressable by exec_id
+export const EXEC_STORE_TTL_MS = 30 * 60_000;
+
+export type StoredExec = {
+  id: string;
+  cmdline: string[];            // original cmd + args as sent by the client
+  effectiveCmdline: string[];   // what was actually spawned
+  cwd: string;
+  spillFile: SpillFile;
+  stdoutBytes: number;
+  stderrBytes: number;
+  spillTruncated: boolean;      // output past the spill quota was dropped
+  mergedStreams: boolean;       // stdout holds stdout and stderr in arrival order
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  durationMs: number;
+  limits: { timeout_ms: number; max_output_bytes: number };
+  pending: { stdout: boolean; stderr: boolean };  // streams the client has not read to the end yet
+  overview: OutputOverview | undefined;  // summary and previews returned with every page
+  createdAt: number;
+};
+
+const store = new Map<string, StoredExec>();
+
+/**
+ * Retain a finished command's spill files so later pages can be served
+ * without spawning the command again. Returns the stored entry with its exec_id.
+ */
+export function storeExec(entry: Omit<StoredExec, "id" | "createdAt">): StoredExec {
+  sweepStoredExecs();
+  const stored: StoredExec = { ...entry, id: `exec-${randomUUID()}`, createdAt: Date.now() };
+  store.set(stored.id, stored);
+  retainSpillFiles([stored.spillFile.path, stored.spillFile.stderrPath]);
+  debugLog("Stored exec result", { execId: stored.id, stdoutBytes: stored.stdoutBytes, stderrBytes: stored.stderrBytes });
+  try {
+    writeSpillMeta(stored.spillFile.path || stored.spillFile.stderrPath!, {
+      cmdline: stored.cmdline,
+      effective_cmdline: stored.effectiveCmdline,
+      cwd: stored.cwd,
+      exit_code: stored.exitCode,
+      signal: stored.signal,
+      stdout_bytes: stored.stdoutBytes,
+      stderr_bytes: stored.stderrBytes,
+      created_at: new Date(stored.createdAt).toISOString(),
+      exec_id: stored.id
+    });
+  } catch (e) {
+    debugLog("Failed to write spill metadata", { execId: stored.id, error: e });
+  }
+  notifySpillFilesChanged();
+  return stored;
+}
+
+/**
+ * Every stored exec result still within its retention TTL
+ */
+export function listStoredExecs(): StoredExec[] {
+  sweepStoredExecs();
+  return [...store.values()];
+}
+
+/**
+ * Look up a stored exec result, throwing a descriptive error for unknown or stale ids
+ */
+export function getStoredExec(execId: string, now: number = Date.now()): StoredExec {
+  const entry = store.get(execId);
+  if (!entry) {
+    throw new Error(`Unknown exec_id: ${execId}. It may have expired or been released after its last page was read; re-run the command without exec_id.`);
+  }
+
+  const expired = now - entry.createdAt > EXEC_STORE_TTL_MS;
+  const stdoutMissing = entry.stdoutBytes > 0 && !existsSync(entry.spillFile.path);
+  const stderrMissing = entry.stderrBytes > 0 && (!entry.spillFile.stderrPath || !existsSync(entry.spillFile.stderrPath));
+  if (expired || stdoutMissing || stderrMissing) {
+    releaseStoredExec(execId);
+    const why = expired ? "expired" : "its spill files are no longer available";
+    throw new Error(`Stale exec_id: ${execId} (${why}); re-run the command without exec_id.`);
+  }
+
+  return entry;
+}
+
+/**
+ * Forget a stored exec result and delete its spill files
+ */
+export function releaseStoredExec(execId: string): void {
+  const entry = store.get(execId);
+  if (!entry) return;
+  store.delete(execId);
+  releaseSpillFiles([entry.spillFile.path, entry.spillFile.stderrPath]);
+  entry.spillFile.cleanup();
+  debugLog("Released exec result", { execId });
+  notifySpillFilesChanged();
+}
+
+/**
+ * Release every stored exec result older than the retention TTL
+ */
+export function sweepStoredExecs(now: number = Date.now()): void {
+  for (const entry of [...store.values()]) {
+    if (now - entry.createdAt > EXEC_STORE_TTL_MS) {
+      releaseStoredExec(entry.id);
+    }
+  }
+}
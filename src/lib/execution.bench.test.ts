@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { execWithPagination } from './execution.js';
+import { createPolicyFromConfig, type Policy } from './policy.js';
+import { DEFAULT_CONFIG } from '../config/schema.js';
+
+// Spills 500MB, so it only runs on request: npm run bench
+const OUTPUT_BYTES = 500_000_000;
+
+describe.runIf(process.env.SHEMCP_BENCH)('execWithPagination throughput', () => {
+  let root: string;
+  let policy: Policy;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'shemcp-bench-'));
+    policy = createPolicyFromConfig({
+      ...DEFAULT_CONFIG,
+      directories: { root },
+      commands: { allow: ['^head(\\s|$)'], deny: [], ask: [], rules: [] },
+      environment: { whitelist: ['PATH'] },
+      limits: { ...DEFAULT_CONFIG.limits, timeout_seconds: 300 },
+      spill: { ...DEFAULT_CONFIG.spill, max_total_bytes: 2 * OUTPUT_BYTES, max_file_bytes: OUTPUT_BYTES }
+    });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  for (const compression of ['none', 'gzip'] as const) {
+    it(`should spill ${OUTPUT_BYTES / 1e6}MB with bounded memory and a responsive event loop (compression: ${compression})`, async () => {
+      policy.spillCompression = compression;
+      const baselineRss = process.memoryUsage().rss;
+      let peakRss = baselineRss;
+      let maxLagMs = 0;
+      let last = Date.now();
+      // A timer that should fire every 10ms shows how long the event loop was blocked
+      const probe = setInterval(() => {
+        const now = Date.now();
+        maxLagMs = Math.max(maxLagMs, now - last - 10);
+        last = now;
+        peakRss = Math.max(peakRss, process.memoryUsage().rss);
+      }, 10);
+
+      const started = process.hrtime.bigint();
+      const result = await execWithPagination(
+        'head', ['-c', String(OUTPUT_BYTES), '/dev/zero'], root, policy.timeoutMs, policy.maxBytes, policy, { limit_bytes: 40000 }
+      );
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      clearInterval(probe);
+      result.spillFile?.cleanup();
+
+      const growthMb = (peakRss - baselineRss) / 1e6;
+      console.log(
+        `[bench] ${compression}: ${(OUTPUT_BYTES / 1e6 / seconds).toFixed(0)} MB/s over ${seconds.toFixed(1)}s, ` +
+        `peak RSS ${(peakRss / 1e6).toFixed(0)}MB (+${growthMb.toFixed(0)}MB), max event loop lag ${maxLagMs}ms`
+      );
+      expect(result.stdoutBytes).toBe(OUTPUT_BYTES);
+      expect(result.spillTruncated).toBe(false);
+      expect(growthMb).toBeLessThan(200);
+      expect(maxLagMs).toBeLessThan(500);
+    }, 300_000);
+  }
+});
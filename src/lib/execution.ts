@@ -1,23 +1,38 @@
-import { spawn } from "node:child_process";
-import { appendFileSync, existsSync, unlinkSync } from "node:fs";
+import type { ChildProcessByStdio } from "node:child_process";
+import { type Readable, finished } from "node:stream";
 import type { Policy } from "./policy.js";
 import { filteredEnv } from "./policy.js";
 import {
   type PaginationConfig,
   type LargeOutputBehavior,
   type SpillFile,
+  type CursorConfig,
+  type ParsedCursor,
+  type Page,
   parseCursor,
   createSpillFile,
   detectMimeType,
   countLines,
-  readFileRange,
+  readPage,
   DEFAULT_PAGE_LIMIT_BYTES,
   MAX_PAGE_LIMIT_BYTES
 } from "./pagination.js";
+import { terminateProcessGroup } from "./process-group.js";
+import { type StdinSource, spawnWithStdin } from "./stdin.js";
+import { type PtyOptions, ptyCommand, ptyEnv } from "./pty.js";
+import { createTerminalOutputFilter } from "./ansi.js";
+import { type SpillQuota, openSpillQuota } from "./spill-retention.js";
+import { type SpillSink, openSpillSink } from "./spill-sink.js";
+import { type PageBuffer, createPageBuffer, createTailBuffer } from "./page-buffer.js";
+import { type ChunkIndexWriter, type OutputStream, openChunkIndex } from "./chunk-index.js";
+import { type ChunkEncoding, encodeChunk, sniffMimeType, MIME_SNIFF_BYTES } from "./encoding.js";
 import { debugLog } from "./debug.js";
 
 /** ---------- Command Execution ---------- */
 
+// How long to wait for output still in the pipes once a command has exited
+const OUTPUT_DRAIN_MS = 1000;
+
 export async function execWithPagination(
   cmd: string,
   args: string[],
@@ -27,101 +42,110 @@ export async function execWithPagination(
   policy: Policy,
   pagination?: PaginationConfig,
   onLargeOutput: LargeOutputBehavior = "spill",
-  additionalEnv?: Record<string, string>
+  additionalEnv?: Record<string, string>,
+  stdin?: StdinSource,
+  tty?: PtyOptions,
+  mergeStreams?: boolean
 ): Promise<{
-  exitCode: number;
+  exitCode: number | null;        // null when the process was ended by a signal
   signal: NodeJS.Signals | null;
+  timedOut: boolean;
   stdout: string;
   stderr: string;
   durationMs: number;
   totalBytes: number;
+  stdoutBytes: number;
+  stderrBytes: number;
   truncated: boolean;
-  nextCursor?: { cursor_type: string; offset: number };
+  spillTruncated: boolean;        // a spill file hit its quota; later output was dropped
+  encoding: ChunkEncoding;        // stdout is base64 when it is binary
+  bytesStart: number;             // byte range of the returned stdout (after a tail cursor, not from 0)
+  bytesEnd: number;
+  stderrEncoding: ChunkEncoding;
+  stderrBytesEnd: number;         // returned stderr is bytes 0 to stderrBytesEnd
+  nextCursor?: CursorConfig;
   spillFile?: SpillFile;
   mime: string;
   lineCount: number;
   stderrCount: number;
 }> {
   // Merge additional env vars with filtered env from policy
-  const env = additionalEnv
+  let env = additionalEnv
     ? { ...filteredEnv(policy), ...additionalEnv }
     : filteredEnv(policy);
-  const child = spawn(cmd, args, { cwd, env, stdio: ["ignore", "pipe", "pipe"] });
+  let spawnCmd = { cmd, args };
+  if (tty) {
+    spawnCmd = ptyCommand(cmd, args, tty);
+    env = ptyEnv(env);
+  }
+  // detached: the command gets its own process group so a timeout can terminate all of it
+  const child = spawnWithStdin(spawnCmd.cmd, spawnCmd.args, { cwd, env, detached: true }, stdin);
 
   // Parse pagination config
   const requestedLimitBytes = pagination?.limit_bytes ?? DEFAULT_PAGE_LIMIT_BYTES;
   const sanitizedLimitBytes = Math.max(1, requestedLimitBytes);
   const limitBytes = Math.min(sanitizedLimitBytes, MAX_PAGE_LIMIT_BYTES);
   const limitLines = pagination?.limit_lines || 2000;
-  const startOffset = pagination?.cursor ? parseCursor(pagination.cursor).offset : 0;
+  // Only an explicit limit_lines cuts pages at line boundaries
+  const pageLines = pagination?.limit_lines;
+  const cursor: ParsedCursor = pagination?.cursor ? parseCursor(pagination.cursor) : { type: "bytes", offset: 0 };
+  // Line and tail cursors need the spill file; the in-memory buffer is read from a byte offset
+  const startOffset = cursor.type === "bytes" ? cursor.offset : 0;
 
   // Create spill file if needed
   let spillFile: SpillFile | undefined;
-  let hasStdoutSpill = false;
-  let hasStderrSpill = false;
+  let stdoutQuota: SpillQuota | undefined;
+  let stderrQuota: SpillQuota | undefined;
+  let stdoutSink: SpillSink | undefined;
+  let stderrSink: SpillSink | undefined;
+  let chunkIndex: ChunkIndexWriter | undefined;
 
   if (onLargeOutput === "spill") {
     spillFile = createSpillFile();
+    stdoutQuota = openSpillQuota(spillFile.path, policy.spillLimits);
+    if (mergeStreams) {
+      // Both pipes feed the one spill file, so either is paused when it falls behind
+      stdoutSink = openSpillSink(spillFile.path, policy.spillCompression, [child.stdout, child.stderr], "merged");
+      chunkIndex = openChunkIndex(spillFile.path);
+    } else {
+      stderrQuota = openSpillQuota(spillFile.stderrPath!, policy.spillLimits);
+      stdoutSink = openSpillSink(spillFile.path, policy.spillCompression, [child.stdout], "stdout");
+      stderrSink = openSpillSink(spillFile.stderrPath!, policy.spillCompression, [child.stderr], "stderr");
+    }
   }
 
-  // For pagination, we need to track complete streams but cap memory usage
-  let stdoutBuffer = Buffer.alloc(0);
-  let stderrBuffer = Buffer.alloc(0);
+  // Only the returned page is kept in memory; the spill file has the complete streams.
+  // A tail cursor keeps the most recent page instead of the first.
+  const stdoutBuffer = cursor.type === "tail" ? createTailBuffer(limitBytes) : createPageBuffer(startOffset, limitBytes);
+  const stderrBuffer = createPageBuffer(0, maxBytes);
   let totalStdoutBytes = 0;
   let totalStderrBytes = 0;
   const started = Date.now();
 
-  child.stdout.on("data", (c: Buffer) => {
+  // Output past the spill quota is dropped, so byte counts and pages match the spill files.
+  // Merged stderr takes the same path, tagged in the chunk index with its stream and arrival time.
+  const onStdout = (chunk: Buffer, stream: OutputStream = "stdout") => {
+    const c = stdoutQuota ? stdoutQuota.admit(chunk) : chunk;
+    if (c.length === 0) return;
+    chunkIndex?.record(stream, totalStdoutBytes, c.length, Date.now() - started);
     totalStdoutBytes += c.length;
-
-    // Cap in-memory buffer to prevent OOM, but keep enough for current page
-    const maxMemoryBytes = Math.max(limitBytes * 2, maxBytes); // Keep 2x limit for current page context
-    if (stdoutBuffer.length > maxMemoryBytes) {
-      // Keep only the last part of the buffer (current page context)
-      const keepBytes = Math.min(limitBytes, maxMemoryBytes / 2);
-      stdoutBuffer = stdoutBuffer.slice(-keepBytes);
-    }
-
-    // Only keep data if we need it for in-memory processing
-    if (stdoutBuffer.length + c.length <= maxMemoryBytes) {
-      stdoutBuffer = Buffer.concat([stdoutBuffer, c]);
-    } else {
-      // If adding this chunk would exceed memory limit, just update total but don't store
-      debugLog("Skipping stdout buffer storage due to memory limit", { chunkSize: c.length, total: totalStdoutBytes });
-    }
-
-    // Write to spill file for complete stream access
-    if (spillFile) {
-      try {
-        appendFileSync(spillFile.path, c);
-        hasStdoutSpill = true;
-      } catch (e) {
-        debugLog("Failed to write to stdout spill file", e);
-      }
-    }
+    stdoutBuffer.push(c);
+    stdoutSink?.write(c);
+  };
+  // Terminal output is stripped of escape sequences before it is buffered or spilled,
+  // so pages and cursors refer to the normalized text
+  const terminalFilter = tty ? createTerminalOutputFilter() : undefined;
+  child.stdout.on("data", (c: Buffer) => {
+    onStdout(terminalFilter ? terminalFilter.push(c) : c);
   });
 
-  child.stderr.on("data", (c: Buffer) => {
+  child.stderr.on("data", (chunk: Buffer) => {
+    if (mergeStreams) return onStdout(chunk, "stderr");
+    const c = stderrQuota ? stderrQuota.admit(chunk) : chunk;
+    if (c.length === 0) return;
     totalStderrBytes += c.length;
-
-    // Cap in-memory buffer to prevent OOM
-    const maxMemoryBytes = Math.max(limitBytes * 2, maxBytes);
-    if (stderrBuffer.length > maxMemoryBytes) {
-      const keepBytes = Math.min(limitBytes, maxMemoryBytes / 2);
-      stderrBuffer = stderrBuffer.slice(-keepBytes);
-    }
-
-    stderrBuffer = Buffer.concat([stderrBuffer, c]);
-
-    // Write to stderr spill file
-    if (spillFile) {
-      try {
-        appendFileSync(spillFile.stderrPath!, c);
-        hasStderrSpill = true;
-      } catch (e) {
-        debugLog("Failed to write to stderr spill file", e);
-      }
-    }
+    stderrBuffer.push(c);
+    stderrSink?.write(c);
   });
 
   const exit = new Promise<{ code: number | null; signal: NodeJS.Signals | null }>((resolve) => {
@@ -132,83 +156,103 @@ export async function execWithPagination(
     });
   });
 
+  let timedOut = false;
   const killer = setTimeout(() => {
-    debugLog("Command timed out, killing process", { timeoutMs });
-    child.kill("SIGKILL");
+    timedOut = true;
+    debugLog("Command timed out, terminating process group", { timeoutMs, graceMs: policy.killGraceMs });
+    void terminateProcessGroup(child, policy.killGraceMs);
   }, timeoutMs);
 
   const result = await exit;
   clearTimeout(killer);
+  await drainOutput(child);
+  if (terminalFilter) {
+    onStdout(terminalFilter.flush());
+  }
+  const [hasStdoutSpill, hasStderrSpill] = await Promise.all([
+    stdoutSink ? stdoutSink.close() : false,
+    stderrSink ? stderrSink.close() : false,
+    chunkIndex?.close(),
+  ]);
+  stdoutQuota?.close();
+  stderrQuota?.close();
 
   const durationMs = Date.now() - started;
 
   // For pagination, we need to read from spill files to get accurate byte-aligned data
-  let returnedStdout = "";
-  let returnedStderr = "";
+  let stdoutPage: Page;
+  let stderrPage: Page;
 
   if (spillFile && hasStdoutSpill) {
-    // Read only the specific byte range from stdout spill file
+    // Read only the page's byte range from the stdout spill file
     try {
-      const stdoutEnd = Math.min(startOffset + limitBytes, totalStdoutBytes);
-      returnedStdout = await readFileRange(spillFile.path, startOffset, stdoutEnd);
+      stdoutPage = await readPage(spillFile.path, totalStdoutBytes, cursor, limitBytes, pageLines);
     } catch (e) {
       debugLog("Failed to read from stdout spill file", e);
       // Fallback to in-memory buffer with byte-aware slicing
-      const stdoutEnd = Math.min(startOffset + limitBytes, stdoutBuffer.length);
-      returnedStdout = stdoutBuffer.subarray(startOffset, stdoutEnd).toString("utf8");
+      stdoutPage = cursor.type === "tail"
+        ? tailBufferPage(stdoutBuffer, totalStdoutBytes, cursor)
+        : bufferPage(stdoutBuffer, totalStdoutBytes, limitBytes, pageLines);
+      if (stdoutPage.end < totalStdoutBytes) {
+        stdoutPage.nextCursor = { cursor_type: 'bytes', offset: stdoutPage.end };
+      }
     }
   } else {
     // No spill file, use in-memory buffer with byte-aware slicing
-    const stdoutEnd = Math.min(startOffset + limitBytes, stdoutBuffer.length);
-    returnedStdout = stdoutBuffer.subarray(startOffset, stdoutEnd).toString("utf8");
+    stdoutPage = cursor.type === "tail"
+      ? tailBufferPage(stdoutBuffer, totalStdoutBytes, cursor)
+      : bufferPage(stdoutBuffer, totalStdoutBytes, limitBytes, pageLines);
   }
 
   // Handle stderr - use policy limit for in-memory stderr
   if (spillFile && hasStderrSpill) {
     try {
-      const stderrEnd = Math.min(maxBytes, totalStderrBytes);
-      returnedStderr = await readFileRange(spillFile.stderrPath!, 0, stderrEnd);
+      stderrPage = await readPage(spillFile.stderrPath!, totalStderrBytes, { type: "bytes", offset: 0 }, maxBytes);
     } catch (e) {
       debugLog("Failed to read from stderr spill file", e);
-      const stderrEnd = Math.min(maxBytes, stderrBuffer.length);
-      returnedStderr = stderrBuffer.subarray(0, stderrEnd).toString("utf8");
+      stderrPage = bufferPage(stderrBuffer, totalStderrBytes, maxBytes);
     }
   } else {
-    const stderrEnd = Math.min(maxBytes, stderrBuffer.length);
-    returnedStderr = stderrBuffer.subarray(0, stderrEnd).toString("utf8");
+    stderrPage = bufferPage(stderrBuffer, totalStderrBytes, maxBytes);
   }
+  const returnedStdout = stdoutPage.chunk;
+  const returnedStderr = stderrPage.chunk;
 
   // Determine if we need pagination
-  const stdoutLines = countLines(returnedStdout);
-  const stderrLines = countLines(returnedStderr);
+  const stdoutLines = stdoutPage.encoding === "utf8" ? countLines(returnedStdout) : 0;
+  const stderrLines = stderrPage.encoding === "utf8" ? countLines(returnedStderr) : 0;
   const totalBytes = totalStdoutBytes + totalStderrBytes;
   const needsPagination = totalStdoutBytes > limitBytes || stdoutLines > limitLines;
 
   let truncated = false;
-  let nextCursor: { cursor_type: string; offset: number } | undefined;
+  let nextCursor: CursorConfig | undefined;
 
   if (needsPagination && onLargeOutput === "truncate") {
     truncated = true;
   } else if (needsPagination && onLargeOutput === "error") {
     throw new Error(`Output too large: ${totalBytes} bytes, ${stdoutLines} lines. Use pagination or spill mode.`);
-  } else if (needsPagination && spillFile) {
-    // Calculate next cursor based on actual bytes returned
-    const actualBytesReturned = Buffer.byteLength(returnedStdout, 'utf8');
-    const nextOffset = startOffset + actualBytesReturned;
-    if (totalStdoutBytes > nextOffset) {
-      nextCursor = { cursor_type: 'bytes', offset: nextOffset };
-    }
+  } else if (spillFile) {
+    nextCursor = stdoutPage.nextCursor;
   }
 
   const resultObj: any = {
-    exitCode: result.code ?? -1,
+    exitCode: result.code,
     signal: result.signal ?? null,
+    timedOut,
     stdout: returnedStdout,
     stderr: returnedStderr,
     durationMs,
     totalBytes,
+    stdoutBytes: totalStdoutBytes,
+    stderrBytes: totalStderrBytes,
     truncated,
-    mime: detectMimeType(returnedStdout),
+    spillTruncated: !!(stdoutQuota?.truncated || stderrQuota?.truncated),
+    encoding: stdoutPage.encoding,
+    bytesStart: stdoutPage.start,
+    bytesEnd: stdoutPage.end,
+    stderrEncoding: stderrPage.encoding,
+    stderrBytesEnd: stderrPage.end,
+    mime: stdoutPage.mime ?? detectMimeType(returnedStdout),
     lineCount: stdoutLines,
     stderrCount: stderrLines
   };
@@ -225,18 +269,7 @@ export async function execWithPagination(
       path: hasStdoutSpill ? spillFile.path : '',
       stderrUri: hasStderrSpill ? spillFile.stderrUri : undefined,
       stderrPath: hasStderrSpill ? spillFile.stderrPath : undefined,
-      cleanup: () => {
-        try {
-          if (hasStdoutSpill && existsSync(spillFile!.path)) {
-            unlinkSync(spillFile!.path);
-          }
-          if (hasStderrSpill && existsSync(spillFile!.stderrPath!)) {
-            unlinkSync(spillFile!.stderrPath!);
-          }
-        } catch (e) {
-          debugLog("Failed to cleanup spill files", { path: spillFile!.path, stderrPath: spillFile!.stderrPath, error: e });
-        }
-      }
+      cleanup: spillFile.cleanup
     };
 
     // Only set non-empty URIs
@@ -255,8 +288,117 @@ export async function execWithPagination(
   return resultObj;
 }
 
-export async function execOnce(cmd: string, args: string[], cwd: string, timeoutMs: number, maxBytes: number, policy: Policy) {
-  const child = spawn(cmd, args, { cwd, env: filteredEnv(policy), stdio: ["ignore", "pipe", "pipe"] });
+/**
+ * Wait for output still in the child's pipes after it exits. A grandchild that holds
+ * a pipe open would keep it from ending, so the wait is capped at OUTPUT_DRAIN_MS.
+ */
+async function drainOutput(child: ChildProcessByStdio<null, Readable, Readable>): Promise<void> {
+  const ended = (stream: Readable) =>
+    new Promise<void>((resolve) => finished(stream, () => resolve()));
+  let timer: NodeJS.Timeout | undefined;
+  const capped = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), OUTPUT_DRAIN_MS);
+  });
+  const drained = await Promise.race([Promise.all([ended(child.stdout), ended(child.stderr)]).then(() => true), capped]);
+  clearTimeout(timer);
+  if (!drained) {
+    debugLog("Output still open after the command exited; closing its pipes", { drainMs: OUTPUT_DRAIN_MS });
+    child.stdout.destroy();
+    child.stderr.destroy();
+  }
+}
+
+/**
+ * A page of in-memory output, for commands without a spill file. Like readPage it
+ * ends text on a complete UTF-8 character and returns binary content as base64.
+ */
+function bufferPage(buffer: PageBuffer, totalBytes: number, limitBytes: number, limitLines?: number): Page {
+  const start = buffer.start;
+  const held = buffer.bytes();
+  const end = Math.min(limitBytes, held.length);
+  let data: Buffer = held.subarray(0, end);
+  const isComplete = start + end >= totalBytes;
+  if (limitLines !== undefined) {
+    data = cutAtLineBoundary(data, limitLines, isComplete);
+  }
+  const encoded = encodeChunk(data, start + data.length >= totalBytes);
+  return {
+    chunk: encoded.chunk,
+    encoding: encoded.encoding,
+    ...(encoded.encoding === "base64" ? { mime: sniffMimeType(held.subarray(0, MIME_SNIFF_BYTES)) } : {}),
+    start,
+    end: start + encoded.end,
+    nextCursor: undefined,
+  };
+}
+
+/**
+ * The page of a tail cursor from the ring of the most recent output. When the tail
+ * reaches further back than the ring, the page starts at the oldest complete line
+ * (or character) held.
+ */
+function tailBufferPage(buffer: PageBuffer, totalBytes: number, cursor: ParsedCursor & { type: "tail" }): Page {
+  const held = buffer.bytes();
+  let from = 0;
+  if ("bytes" in cursor) {
+    from = Math.max(0, held.length - cursor.bytes);
+  } else {
+    // A trailing newline does not start another line
+    let position = held.length > 0 && held[held.length - 1] === 10 ? held.length - 1 : held.length;
+    from = cursor.lines === 0 ? held.length : -1;
+    for (let n = 0; n < cursor.lines; n++) {
+      const newline = position > 0 ? held.lastIndexOf(10, position - 1) : -1;
+      if (newline === -1) {
+        from = -1;
+        break;
+      }
+      from = newline + 1;
+      position = newline;
+    }
+    if (from === -1) {
+      // The tail starts before the ring; skip the line the ring cut through
+      const newline = held.indexOf(10);
+      from = buffer.start > 0 && newline !== -1 && newline + 1 < held.length ? newline + 1 : 0;
+    }
+  }
+  if (buffer.start + from > 0) {
+    while (from < held.length && (held[from]! & 0xc0) === 0x80) from++;
+  }
+
+  const data = held.subarray(from);
+  const encoded = encodeChunk(data, true);
+  const start = buffer.start + from;
+  return {
+    chunk: encoded.chunk,
+    encoding: encoded.encoding,
+    ...(encoded.encoding === "base64" ? { mime: sniffMimeType(data.subarray(0, MIME_SNIFF_BYTES)) } : {}),
+    start,
+    end: start + encoded.end,
+    nextCursor: undefined,
+  };
+}
+
+/**
+ * Cut a page of in-memory output after maxLines lines. A page that stops inside a line
+ * (isComplete false) is also cut back to its last newline, unless it holds a single line.
+ */
+function cutAtLineBoundary(page: Buffer, maxLines: number, isComplete: boolean): Buffer {
+  let end = 0;
+  let lines = 0;
+  let newline = page.indexOf(10);
+  while (newline !== -1 && lines < maxLines) {
+    end = newline + 1;
+    lines++;
+    newline = page.indexOf(10, end);
+  }
+  if (lines < maxLines && (isComplete || end === 0)) {
+    return page;
+  }
+  return page.subarray(0, end);
+}
+
+export async function execOnce(cmd: string, args: string[], cwd: string, timeoutMs: number, maxBytes: number, policy: Policy, stdin?: StdinSource) {
+  const child = spawnWithStdin(cmd, args, { cwd, env: filteredEnv(policy), detached: true }, stdin);
   let stdout = Buffer.alloc(0);
   let stderr = Buffer.alloc(0);
   const started = Date.now();
@@ -271,8 +413,10 @@ export async function execOnce(cmd: string, args: string[], cwd: string, timeout
     child.on("exit", (code, signal) => resolve({ code, signal }));
   });
 
+  let timedOut = false;
   const killer = setTimeout(() => {
-    child.kill("SIGKILL");
+    timedOut = true;
+    void terminateProcessGroup(child, policy.killGraceMs);
   }, timeoutMs);
 
   const result = await exit;
@@ -280,8 +424,9 @@ export async function execOnce(cmd: string, args: string[], cwd: string, timeout
 
   return {
     durationMs: Date.now() - started,
-    exitCode: result.code ?? -1,
+    exitCode: result.code,
     signal: result.signal ?? null,
+    timedOut,
     stdout: stdout.toString("utf8"),
     stderr: stderr.toString("utf8"),
   };
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseGrepFilter, grepFile } from './grep.js';
+
+describe('grepFile', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-grep-'));
+    file = join(dir, 'log.txt');
+    writeFileSync(file, 'ok\r\nerror: one\nok\nok\nerror: two\nok\nerror: three');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should number lines and strip CRLF endings', async () => {
+    const result = await grepFile(file, parseGrepFilter({ pattern: '^ok$' }), 0, 1000);
+    expect(result.matches.map(m => [m.line_number, m.byte_offset, m.line])).toEqual([
+      [1, 0, 'ok'], [3, 15, 'ok'], [4, 18, 'ok'], [6, 32, 'ok']
+    ]);
+    expect(result.bytesEnd).toBe(47);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  it('should resume from a cursor and count lines when it has no line number', async () => {
+    const filter = parseGrepFilter({ pattern: 'error', max_matches: 1 });
+    const first = await grepFile(file, filter, 0, 1000);
+    expect(first.nextCursor).toEqual({ cursor_type: 'bytes', offset: 21, line: 5 });
+
+    const second = await grepFile(file, filter, 21, 1000);
+    expect(second.matches[0]).toMatchObject({ line_number: 5, line: 'error: two' });
+    expect(second.nextCursor).toEqual({ cursor_type: 'bytes', offset: 35, line: 7 });
+  });
+
+  it('should stop at the scan limit with a cursor to continue from', async () => {
+    const filter = parseGrepFilter({ pattern: 'three' });
+    const first = await grepFile(file, filter, 0, 1000, undefined, 20);
+    expect(first.matches).toEqual([]);
+    expect(first.nextCursor).toEqual({ cursor_type: 'bytes', offset: 21, line: 5 });
+    expect(first.bytesEnd).toBe(21);
+
+    const second = await grepFile(file, filter, 21, 1000, 5, 20);
+    expect(second.matches.map(m => m.line_number)).toEqual([7]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should attach context lines shared between nearby matches', async () => {
+    const result = await grepFile(file, parseGrepFilter({ pattern: 'error: (one|two)', context_lines: 2 }), 0, 1000);
+    expect(result.matches[0]!.before?.map(l => l.line)).toEqual(['ok']);
+    expect(result.matches[0]!.after?.map(l => l.line)).toEqual(['ok', 'ok']);
+    expect(result.matches[1]!.before?.map(l => l.line)).toEqual(['ok', 'ok']);
+    expect(result.matches[1]!.after?.map(l => l.line)).toEqual(['ok', 'error: three']);
+  });
+});
@@ -0,0 +1,204 @@
+import { streamSpillFile } from "./spill-frames.js";
+
+/** ---------- Output Filtering (grep) ---------- */
+
+export const DEFAULT_MAX_MATCHES = 100;
+export const MAX_MATCHES = 1000;
+export const MAX_CONTEXT_LINES = 20;
+const MAX_PATTERN_LENGTH = 1000;
+// Longer lines are returned cut to this many characters
+const MAX_LINE_CHARS = 2000;
+// The pattern runs on the event loop, so one call scans a bounded amount of output and
+// returns a cursor to continue from; only the start of very long lines is matched
+export const MAX_SCAN_BYTES = 16 * 1024 * 1024;
+const MAX_SCAN_MS = 1000;
+const MAX_MATCH_CHARS = 64 * 1024;
+
+export type GrepFilter = {
+  pattern: RegExp;
+  invert: boolean;        // return lines that do not match
+  contextLines: number;   // lines of context before and after each match
+  maxMatches: number;     // matches per page
+};
+
+export type GrepLine = {
+  line_number: number;
+  byte_offset: number;
+  line: string;
+  line_truncated?: boolean;
+};
+
+export type GrepMatch = GrepLine & {
+  before?: GrepLine[];
+  after?: GrepLine[];
+};
+
+export type GrepCursor = { cursor_type: string; offset: number; line: number };
+
+export type GrepResult = {
+  matches: GrepMatch[];
+  bytesStart: number;
+  bytesEnd: number;               // where scanning stopped: the next match, the scan limit or the end of the file
+  nextCursor: GrepCursor | undefined;  // points at the first match not returned, or the first line not scanned
+};
+
+/**
+ * Validate the filter parameter of shell_exec and read_file_chunk.
+ * Throws with a client-facing message if it is invalid.
+ */
+export function parseGrepFilter(filter: unknown): GrepFilter {
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) {
+    throw new Error("filter must be an object with a 'pattern' string");
+  }
+  const input = filter as Record<string, unknown>;
+
+  if (typeof input.pattern !== "string" || input.pattern.length === 0 || input.pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`filter.pattern must be a non-empty string of at most ${MAX_PATTERN_LENGTH} characters`);
+  }
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(input.pattern);
+  } catch (error: any) {
+    throw new Error(`filter.pattern is not a valid regular expression: ${error.message}`);
+  }
+
+  if (input.invert !== undefined && typeof input.invert !== "boolean") {
+    throw new Error("filter.invert must be a boolean");
+  }
+  const integer = (value: unknown, name: string, min: number, max: number, fallback: number) => {
+    if (value === undefined) return fallback;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`filter.${name} must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  return {
+    pattern,
+    invert: input.invert === true,
+    contextLines: integer(input.context_lines, "context_lines", 0, MAX_CONTEXT_LINES, 0),
+    maxMatches: integer(input.max_matches, "max_matches", 1, MAX_MATCHES, DEFAULT_MAX_MATCHES),
+  };
+}
+
+/**
+ * Stream the lines of a file from a byte offset, with the offset of each line.
+ * Line endings are not included; a trailing \r is dropped.
+ */
+export async function* readLines(filePath: string, start: number): AsyncGenerator<{ offset: number; end: number; text: string }> {
+  let parts: Buffer[] = [];
+  let lineStart = start;
+  let position = start;
+
+  for await (const chunk of streamSpillFile(filePath, start)) {
+    let from = 0;
+    let newline = chunk.indexOf(10, from);
+    while (newline !== -1) {
+      parts.push(chunk.subarray(from, newline));
+      const text = Buffer.concat(parts).toString("utf8");
+      const end = position + newline + 1;
+      yield { offset: lineStart, end, text: text.endsWith("\r") ? text.slice(0, -1) : text };
+      parts = [];
+      lineStart = end;
+      from = newline + 1;
+      newline = chunk.indexOf(10, from);
+    }
+    if (from < chunk.length) parts.push(chunk.subarray(from));
+    position += chunk.length;
+  }
+  if (parts.length > 0) {
+    yield { offset: lineStart, end: position, text: Buffer.concat(parts).toString("utf8") };
+  }
+}
+
+/**
+ * Count the lines that end before a byte offset, to number lines when a cursor
+ * does not carry its line number
+ */
+async function countNewlines(filePath: string, end: number): Promise<number> {
+  if (end <= 0) return 0;
+  let count = 0;
+  for await (const chunk of streamSpillFile(filePath, 0, end)) {
+    let index = chunk.indexOf(10);
+    while (index !== -1) {
+      count++;
+      index = chunk.indexOf(10, index + 1);
+    }
+  }
+  return count;
+}
+
+function toGrepLine(lineNumber: number, offset: number, text: string): GrepLine {
+  if (text.length <= MAX_LINE_CHARS) {
+    return { line_number: lineNumber, byte_offset: offset, line: text };
+  }
+  return { line_number: lineNumber, byte_offset: offset, line: text.slice(0, MAX_LINE_CHARS), line_truncated: true };
+}
+
+/**
+ * Scan a file from a cursor and collect matching lines, up to filter.maxMatches or
+ * roughly limitBytes of returned text. Scanning continues to the following match so
+ * the next cursor lands on it, unless it reaches scanBytes or MAX_SCAN_MS first.
+ * @param startLine line number of the line at start (1-based); counted from the file if omitted
+ */
+export async function grepFile(
+  filePath: string,
+  filter: GrepFilter,
+  start: number,
+  limitBytes: number,
+  startLine?: number,
+  scanBytes: number = MAX_SCAN_BYTES
+): Promise<GrepResult> {
+  const began = Date.now();
+  let lineNumber = startLine ?? (await countNewlines(filePath, start)) + 1;
+  const matches: GrepMatch[] = [];
+  const before: GrepLine[] = [];
+  const open: { match: GrepMatch; remaining: number }[] = [];
+  let returnedBytes = 0;
+  let bytesEnd = start;
+  let nextCursor: GrepCursor | undefined;
+
+  for await (const { offset, end, text } of readLines(filePath, start)) {
+    if (offset > start && (offset - start >= scanBytes || Date.now() - began >= MAX_SCAN_MS)) {
+      nextCursor = { cursor_type: "bytes", offset, line: lineNumber };
+      break;
+    }
+
+    const subject = text.length > MAX_MATCH_CHARS ? text.slice(0, MAX_MATCH_CHARS) : text;
+    const isMatch = filter.pattern.test(subject) !== filter.invert;
+    if (isMatch && (matches.length >= filter.maxMatches || (matches.length > 0 && returnedBytes >= limitBytes))) {
+      nextCursor = { cursor_type: "bytes", offset, line: lineNumber };
+      break;
+    }
+
+    const line = toGrepLine(lineNumber, offset, text);
+    for (const pending of open) {
+      if (pending.remaining > 0) {
+        (pending.match.after ??= []).push(line);
+        pending.remaining--;
+        returnedBytes += line.line.length;
+      }
+    }
+
+    if (isMatch) {
+      const match: GrepMatch = { ...line };
+      if (before.length > 0) match.before = [...before];
+      matches.push(match);
+      returnedBytes += line.line.length + before.reduce((n, l) => n + l.line.length, 0);
+      if (filter.contextLines > 0) open.push({ match, remaining: filter.contextLines });
+    }
+
+    if (filter.contextLines > 0) {
+      before.push(line);
+      if (before.length > filter.contextLines) before.shift();
+    }
+    while (open.length > 0 && open[0]!.remaining === 0) open.shift();
+    lineNumber++;
+    bytesEnd = end;
+  }
+
+  if (nextCursor) {
+    bytesEnd = nextCursor.offset;
+  }
+  return { matches, bytesStart: start, bytesEnd, nextCursor };
+}
@@ -0,0 +1,328 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { existsSync, writeFileSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import type { Policy } from "./policy.js";
+import { filteredEnv } from "./policy.js";
+import { type SpillFile, createSpillFile, readFileRange, getFileSizeSync } from "./pagination.js";
+import { signalProcessGroup, terminateProcessGroup } from "./process-group.js";
+import { type PtyOptions, ptyCommand, ptyEnv } from "./pty.js";
+import { createTerminalOutputFilter } from "./ansi.js";
+import { openSpillSink } from "./spill-sink.js";
+import { openSpillQuota, notifySpillFilesChanged, retainSpillFiles, releaseSpillFiles } from "./spill-retention.js";
+import { writeSpillMeta } from "./spill-catalog.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Background Jobs ---------- */
+
+// Finished jobs (and their spill files) stay inspectable for this long
+export const JOB_RETENTION_MS = 30 * 60_000;
+// Grace period between SIGTERM and SIGKILL when reaping jobs at shutdown
+const REAP_GRACE_MS = 2000;
+
+export type JobState = "running" | "exited" | "killed" | "timed_out";
+
+export type Job = {
+  id: string;
+  pid: number | undefined;
+  cmdline: string[];            // original cmd + args as sent by the client
+  effectiveCmdline: string[];   // what was actually spawned
+  cwd: string;
+  spillFile: SpillFile;
+  tty: PtyOptions | undefined;  // set for jobs on a pseudo-terminal; only these accept input
+  state: JobState;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startedAt: number;
+  endedAt: number | undefined;
+  stdoutBytes: number;
+  stderrBytes: number;
+  spillTruncated: boolean;      // a spill file hit its quota; later output was dropped
+  done: Promise<void>;          // resolves once the process has exited and spill writes are flushed
+};
+
+type JobInternals = {
+  child: ChildProcess;
+  killRequested: boolean;
+  timer: NodeJS.Timeout | undefined;
+};
+
+const jobs = new Map<string, Job>();
+const internals = new Map<string, JobInternals>();
+
+export type StartJobOptions = {
+  cmdline: string[];
+  additionalEnv?: Record<string, string> | undefined;
+  timeoutMs?: number | undefined;   // kill the job after this long; unset means no limit
+  tty?: PtyOptions | undefined;
+};
+
+/**
+ * Spawn a command in the background, streaming stdout/stderr into spill files.
+ * Callers must run policy and cwd checks first.
+ */
+export function startJob(cmd: string, args: string[], cwd: string, policy: Policy, options: StartJobOptions): Job {
+  sweepJobs();
+
+  const running = [...jobs.values()].filter(j => j.state === "running").length;
+  if (running >= policy.maxJobs) {
+    throw new Error(`Too many running jobs (${running}/${policy.maxJobs}); wait for or kill an existing job first`);
+  }
+
+  let env = options.additionalEnv
+    ? { ...filteredEnv(policy), ...options.additionalEnv }
+    : filteredEnv(policy);
+  let spawnCmd = { cmd, args };
+  if (options.tty) {
+    spawnCmd = ptyCommand(cmd, args, options.tty);
+    env = ptyEnv(env);
+  }
+  // detached: the job gets its own process group so kills reach everything it started.
+  // Terminal jobs keep stdin open so shell_job_input can send keystrokes.
+  const child = spawn(spawnCmd.cmd, spawnCmd.args, {
+    cwd,
+    env,
+    stdio: [options.tty ? "pipe" : "ignore", "pipe", "pipe"],
+    detached: true
+  });
+  child.stdin?.on("error", (error) => {
+    debugLog("Job stdin error", { error: error.message });
+  });
+
+  const spillFile = createSpillFile();
+  // Both files exist from the start so a job is listed and its tail readable before it prints
+  writeFileSync(spillFile.path, "");
+  writeFileSync(spillFile.stderrPath!, "");
+  // Job output is stored raw, since it is read while it is still being written
+  const stdoutSink = openSpillSink(spillFile.path, "none", [child.stdout!], "stdout");
+  const stderrSink = openSpillSink(spillFile.stderrPath!, "none", [child.stderr!], "stderr");
+  const stdoutQuota = openSpillQuota(spillFile.path, policy.spillLimits);
+  const stderrQuota = openSpillQuota(spillFile.stderrPath!, policy.spillLimits);
+
+  const job: Job = {
+    id: `job-${randomUUID()}`,
+    pid: child.pid,
+    cmdline: options.cmdline,
+    effectiveCmdline: [cmd, ...args],
+    cwd,
+    spillFile,
+    tty: options.tty,
+    state: "running",
+    exitCode: null,
+    signal: null,
+    startedAt: Date.now(),
+    endedAt: undefined,
+    stdoutBytes: 0,
+    stderrBytes: 0,
+    spillTruncated: false,
+    done: Promise.resolve(),
+  };
+  const internal: JobInternals = { child, killRequested: false, timer: undefined };
+
+  // Terminal output is stripped of escape sequences before it reaches the spill file
+  const terminalFilter = options.tty ? createTerminalOutputFilter() : undefined;
+  // Output past the spill quota is dropped; byte counts cover what was written
+  const writeStdout = (chunk: Buffer) => {
+    const c = stdoutQuota.admit(chunk);
+    job.spillTruncated ||= stdoutQuota.truncated;
+    if (c.length === 0) return;
+    job.stdoutBytes += c.length;
+    stdoutSink.write(c);
+  };
+  child.stdout!.on("data", (c: Buffer) => {
+    writeStdout(terminalFilter ? terminalFilter.push(c) : c);
+  });
+  child.stderr!.on("data", (chunk: Buffer) => {
+    const c = stderrQuota.admit(chunk);
+    job.spillTruncated ||= stderrQuota.truncated;
+    if (c.length === 0) return;
+    job.stderrBytes += c.length;
+    stderrSink.write(c);
+  });
+
+  job.done = new Promise<void>((resolve) => {
+    let settled = false;
+    const finish = async (code: number | null, signal: NodeJS.Signals | null) => {
+      if (settled) return;
+      settled = true;
+      if (internal.timer) clearTimeout(internal.timer);
+      if (terminalFilter) writeStdout(terminalFilter.flush());
+      await Promise.all([stdoutSink.close(), stderrSink.close()]);
+      stdoutQuota.close();
+      stderrQuota.close();
+      job.exitCode = code;
+      job.signal = signal;
+      job.endedAt = Date.now();
+      if (job.state === "running") {
+        job.state = internal.killRequested ? "killed" : "exited";
+      }
+      recordJobSpill(job);
+      debugLog("Job finished", { jobId: job.id, state: job.state, code, signal });
+      resolve();
+    };
+    // "close" fires after stdio has drained, so the spill files are complete
+    child.on("close", (code, signal) => { void finish(code, signal); });
+    child.on("error", (error) => {
+      debugLog("Job process error", { jobId: job.id, error: error.message });
+      void finish(-1, null);
+    });
+  });
+
+  if (options.timeoutMs !== undefined) {
+    internal.timer = setTimeout(() => {
+      if (job.state !== "running") return;
+      debugLog("Job timed out, terminating process group", { jobId: job.id, timeoutMs: options.timeoutMs });
+      job.state = "timed_out";
+      void terminateProcessGroup(child, policy.killGraceMs);
+    }, options.timeoutMs);
+  }
+
+  jobs.set(job.id, job);
+  retainSpillFiles([spillFile.path, spillFile.stderrPath]);
+  internals.set(job.id, internal);
+  debugLog("Job started", { jobId: job.id, pid: job.pid, cmd, args });
+  recordJobSpill(job);
+  notifySpillFilesChanged();
+  return job;
+}
+
+/**
+ * Write the job's command and outcome so far to its spill sidecar
+ */
+function recordJobSpill(job: Job): void {
+  try {
+    writeSpillMeta(job.spillFile.path, {
+      cmdline: job.cmdline,
+      effective_cmdline: job.effectiveCmdline,
+      cwd: job.cwd,
+      exit_code: job.exitCode,
+      signal: job.signal,
+      stdout_bytes: job.stdoutBytes,
+      stderr_bytes: job.stderrBytes,
+      created_at: new Date(job.startedAt).toISOString(),
+      job_id: job.id
+    });
+  } catch (e) {
+    debugLog("Failed to write spill metadata", { jobId: job.id, error: e });
+  }
+}
+
+/**
+ * Look up a job, throwing a descriptive error for unknown or expired ids
+ */
+export function getJob(jobId: string): Job {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Unknown job_id: ${jobId}. Finished jobs are forgotten ${JOB_RETENTION_MS / 60_000} minutes after they exit.`);
+  }
+  return job;
+}
+
+export function listJobs(): Job[] {
+  sweepJobs();
+  return [...jobs.values()];
+}
+
+/**
+ * Send a signal to a running job's process group. Returns false if the job has already finished.
+ */
+export function killJob(jobId: string, signal: NodeJS.Signals = "SIGTERM"): boolean {
+  const job = getJob(jobId);
+  const internal = internals.get(jobId);
+  if (job.state !== "running" || !internal) return false;
+  internal.killRequested = true;
+  debugLog("Killing job", { jobId, signal });
+  return signalProcessGroup(internal.child, signal);
+}
+
+/**
+ * Send input to a running terminal job, optionally closing its stdin afterwards
+ * (the terminal then sees end-of-file). Throws if the job has no terminal or has finished.
+ * The input is not checked against the command policy.
+ */
+export function writeJobInput(jobId: string, data: Buffer, closeStdin: boolean): void {
+  const job = getJob(jobId);
+  const stdin = internals.get(jobId)?.child.stdin;
+  if (!job.tty || !stdin) {
+    throw new Error(`Job ${jobId} was not started with tty: true and does not accept input`);
+  }
+  if (job.state !== "running" || stdin.writableEnded) {
+    throw new Error(`Job ${jobId} is not accepting input (state: ${job.state})`);
+  }
+  debugLog("Writing job input", { jobId, bytes: data.length, closeStdin });
+  if (closeStdin) {
+    stdin.end(data);
+  } else {
+    stdin.write(data);
+  }
+}
+
+/**
+ * Wait for a job to finish, up to timeoutMs. Returns true if the job has finished.
+ */
+export async function waitForJob(jobId: string, timeoutMs: number): Promise<boolean> {
+  const job = getJob(jobId);
+  if (job.state !== "running") {
+    await job.done;
+    return true;
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const finished = await Promise.race([job.done.then(() => true), timedOut]);
+  clearTimeout(timer);
+  return finished;
+}
+
+/**
+ * Read the last tailBytes of a job's stdout or stderr spill file
+ */
+export async function readJobTail(job: Job, stream: "stdout" | "stderr", tailBytes: number): Promise<string> {
+  const path = stream === "stdout" ? job.spillFile.path : job.spillFile.stderrPath;
+  if (!path || !existsSync(path)) return "";
+  const size = getFileSizeSync(path);
+  return await readFileRange(path, Math.max(0, size - tailBytes), size);
+}
+
+function forgetJob(job: Job): void {
+  jobs.delete(job.id);
+  internals.delete(job.id);
+  releaseSpillFiles([job.spillFile.path, job.spillFile.stderrPath]);
+  job.spillFile.cleanup();
+  notifySpillFilesChanged();
+}
+
+/**
+ * Forget finished jobs older than the retention period and delete their spill files
+ */
+export function sweepJobs(now: number = Date.now()): void {
+  for (const job of [...jobs.values()]) {
+    if (job.state !== "running" && job.endedAt !== undefined && now - job.endedAt > JOB_RETENTION_MS) {
+      forgetJob(job);
+    }
+  }
+}
+
+/**
+ * Terminate every running job (SIGTERM, then SIGKILL after a grace period)
+ * and delete all job spill files. Called on server shutdown.
+ */
+export async function reapJobs(): Promise<void> {
+  const running = [...jobs.values()].filter(j => j.state === "running");
+  debugLog("Reaping jobs", { running: running.length, total: jobs.size });
+
+  for (const job of running) {
+    killJob(job.id, "SIGTERM");
+  }
+  await Promise.all(running.map(async (job) => {
+    if (!(await waitForJob(job.id, REAP_GRACE_MS))) {
+      const internal = internals.get(job.id);
+      if (internal) signalProcessGroup(internal.child, "SIGKILL");
+      await job.done;
+    }
+  }));
+
+  for (const job of [...jobs.values()]) {
+    forgetJob(job);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseJsonPath, evaluateJsonPath, projectJsonFile } from './json-path.js';
+
+const doc = {
+  items: [
+    { name: 'a', id: 1, tags: ['x'] },
+    { name: 'b', id: 2, tags: [] },
+    { name: 'c', id: 3, nested: { id: 4 } }
+  ],
+  'odd key': true
+};
+const evaluate = (expression: string) => evaluateJsonPath(parseJsonPath(expression), doc);
+
+describe('evaluateJsonPath', () => {
+  it('should select members, indexes and wildcards', () => {
+    expect(evaluate('$')).toEqual([doc]);
+    expect(evaluate('$.items[*].name')).toEqual(['a', 'b', 'c']);
+    expect(evaluate("$['odd key']")).toEqual([true]);
+    expect(evaluate('$.items[-1].name')).toEqual(['c']);
+    expect(evaluate('$.items[5]')).toEqual([]);
+    expect(evaluate('$.missing.name')).toEqual([]);
+  });
+
+  it('should support slices, unions and recursive descent', () => {
+    expect(evaluate('$.items[0:2].id')).toEqual([1, 2]);
+    expect(evaluate('$.items[::-1].id')).toEqual([3, 2, 1]);
+    expect(evaluate('$.items[0,2].name')).toEqual(['a', 'c']);
+    expect(evaluate("$.items[0]['name','id']")).toEqual(['a', 1]);
+    expect(evaluate('$..id')).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should reject invalid expressions with their position', () => {
+    expect(() => parseJsonPath('items')).toThrow("at position 0: expected '$'");
+    expect(() => parseJsonPath('$.items[')).toThrow("missing ']'");
+    expect(() => parseJsonPath('$.items[?(@.id > 1)]')).toThrow('filter and script expressions are not supported');
+    expect(() => parseJsonPath('$.items[::0]')).toThrow('slice step cannot be 0');
+    expect(() => parseJsonPath('')).toThrow('non-empty string');
+  });
+});
+
+describe('projectJsonFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-json-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should page the encoded result', async () => {
+    const file = join(dir, 'out.json');
+    writeFileSync(file, JSON.stringify(doc));
+    const path = parseJsonPath('$.items[*].name');
+
+    const first = await projectJsonFile(file, path, 0, 10);
+    expect(first.matchCount).toBe(3);
+    expect(first.nextCursor).toEqual({ cursor_type: 'bytes', offset: 10 });
+    const rest = await projectJsonFile(file, path, 10, 1000);
+    expect(rest.nextCursor).toBeUndefined();
+    expect(JSON.parse(first.chunk + rest.chunk)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not split a multi-byte character between pages', async () => {
+    const file = join(dir, 'out.json');
+    writeFileSync(file, JSON.stringify({ price: '€€€' }));
+    const path = parseJsonPath('$.price');
+    // The encoded result is [\n  "€€€"\n]; a 7-byte page would end inside the first €
+    const first = await projectJsonFile(file, path, 0, 7);
+    expect(first.chunk).toBe('[\n  "');
+    expect(first.nextCursor).toEqual({ cursor_type: 'bytes', offset: 5 });
+
+    let text = first.chunk;
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await projectJsonFile(file, path, cursor.offset, 4);
+      expect(page.chunk).not.toContain('\uFFFD');
+      text += page.chunk;
+      cursor = page.nextCursor;
+    }
+    expect(JSON.parse(text)).toEqual(['€€€']);
+  });
+
+  it('should report output that is not JSON', async () => {
+    const file = join(dir, 'out.txt');
+    writeFileSync(file, 'Error: not logged in\n');
+    await expect(projectJsonFile(file, parseJsonPath('$'), 0, 1000)).rejects.toThrow('not valid JSON');
+  });
+});
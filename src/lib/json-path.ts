@@ -0,0 +1,256 @@
+import { getFileSizeSync, readFileRange } from "./pagination.js";
+import { utf8SafeLength } from "./encoding.js";
+
+/** ---------- JSON Path Projection ---------- */
+
+// Supported JSONPath subset:
+//   $             the document
+//   .name ['name'] member of an object ("name" quotes work too)
+//   [0] [-1]      array element, negative counts from the end
+//   [1:5] [::2]   array slice (start:end:step)
+//   * [*]         every member or element
+//   ..name ..*    recursive descent
+//   [0,2] ['a','b'] unions of the above
+// Filter expressions ([?(...)]) and script expressions are not supported.
+
+const MAX_EXPRESSION_LENGTH = 1000;
+// Output is parsed in memory; larger documents should be narrowed by the command itself
+export const MAX_JSON_INPUT_BYTES = 32 * 1024 * 1024;
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start: number | undefined; end: number | undefined; step: number }
+  | { kind: "wildcard" };
+
+type Segment = {
+  descendant: boolean;    // ..: apply to the node and everything below it
+  selectors: Selector[];
+};
+
+export type JsonPath = {
+  expression: string;
+  segments: Segment[];
+};
+
+export type JsonPathResult = {
+  chunk: string;          // this page of the JSON-encoded array of matches
+  matchCount: number;
+  bytesStart: number;     // byte range of the chunk within the encoded result
+  bytesEnd: number;
+  totalBytes: number;
+  nextCursor: { cursor_type: string; offset: number } | undefined;
+};
+
+/**
+ * Compile a json_path expression. Throws with a client-facing message (including
+ * the position of the problem) if it is invalid.
+ */
+export function parseJsonPath(expression: unknown): JsonPath {
+  if (typeof expression !== "string" || expression.length === 0 || expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`json_path must be a non-empty string of at most ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const fail = (message: string, at: number): never => {
+    throw new Error(`Invalid json_path '${expression}' at position ${at}: ${message}`);
+  };
+
+  let pos = 0;
+  if (expression[pos] !== "$") fail("expected '$' at the start", pos);
+  pos++;
+
+  const segments: Segment[] = [];
+  while (pos < expression.length) {
+    const char = expression[pos];
+    if (char === ".") {
+      const descendant = expression[pos + 1] === ".";
+      pos += descendant ? 2 : 1;
+      if (expression[pos] === "[") {
+        if (!descendant) fail("unexpected '[' after '.'", pos);
+        const bracket = parseBracket(expression, pos, fail);
+        segments.push({ descendant, selectors: bracket.selectors });
+        pos = bracket.end;
+      } else if (expression[pos] === "*") {
+        segments.push({ descendant, selectors: [{ kind: "wildcard" }] });
+        pos++;
+      } else {
+        const name = /^[A-Za-z_$][\w$-]*/.exec(expression.slice(pos))?.[0];
+        if (!name) fail("expected a member name, '*' or '['", pos);
+        segments.push({ descendant, selectors: [{ kind: "name", name: name! }] });
+        pos += name!.length;
+      }
+    } else if (char === "[") {
+      const bracket = parseBracket(expression, pos, fail);
+      segments.push({ descendant: false, selectors: bracket.selectors });
+      pos = bracket.end;
+    } else {
+      fail(`unexpected '${char}'`, pos);
+    }
+  }
+  return { expression, segments };
+}
+
+/**
+ * Parse a [...] selector list starting at the '['. Returns the selectors and the
+ * position after the closing ']'.
+ */
+function parseBracket(
+  expression: string,
+  start: number,
+  fail: (message: string, at: number) => never
+): { selectors: Selector[]; end: number } {
+  const selectors: Selector[] = [];
+  let pos = start + 1;
+  const skipSpaces = () => {
+    while (expression[pos] === " ") pos++;
+  };
+
+  for (;;) {
+    skipSpaces();
+    const char = expression[pos];
+    if (char === undefined) fail("missing ']'", pos);
+
+    if (char === "'" || char === '"') {
+      let name = "";
+      pos++;
+      while (expression[pos] !== char) {
+        if (expression[pos] === undefined) fail("unterminated string", pos);
+        if (expression[pos] === "\\" && pos + 1 < expression.length) pos++;
+        name += expression[pos];
+        pos++;
+      }
+      pos++;
+      selectors.push({ kind: "name", name });
+    } else if (char === "*") {
+      pos++;
+      selectors.push({ kind: "wildcard" });
+    } else if (char === "?" || char === "(") {
+      fail("filter and script expressions are not supported", pos);
+    } else {
+      const match = /^(-?\d+)?(?:\s*:\s*(-?\d+)?(?:\s*:\s*(-?\d+)?)?)?/.exec(expression.slice(pos));
+      const text = match?.[0] ?? "";
+      if (text.trim().length === 0) fail("expected an index, slice, quoted name or '*'", pos);
+      if (!text.includes(":")) {
+        selectors.push({ kind: "index", index: Number(match![1]) });
+      } else {
+        const step = match![3] === undefined ? 1 : Number(match![3]);
+        if (step === 0) fail("slice step cannot be 0", pos);
+        selectors.push({
+          kind: "slice",
+          start: match![1] === undefined ? undefined : Number(match![1]),
+          end: match![2] === undefined ? undefined : Number(match![2]),
+          step,
+        });
+      }
+      pos += text.length;
+    }
+
+    skipSpaces();
+    if (expression[pos] === ",") {
+      pos++;
+      continue;
+    }
+    if (expression[pos] !== "]") fail("expected ',' or ']'", pos);
+    return { selectors, end: pos + 1 };
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function select(value: unknown, selector: Selector): unknown[] {
+  switch (selector.kind) {
+    case "name":
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name) ? [value[selector.name]] : [];
+    case "wildcard":
+      if (Array.isArray(value)) return value;
+      return isObject(value) ? Object.values(value) : [];
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case "slice": {
+      if (!Array.isArray(value)) return [];
+      // Same bounds as Python slicing
+      const length = value.length;
+      const clamp = (n: number, low: number, high: number) => Math.min(Math.max(n < 0 ? n + length : n, low), high);
+      const selected: unknown[] = [];
+      if (selector.step > 0) {
+        const start = selector.start === undefined ? 0 : clamp(selector.start, 0, length);
+        const end = selector.end === undefined ? length : clamp(selector.end, 0, length);
+        for (let i = start; i < end; i += selector.step) selected.push(value[i]);
+      } else {
+        const start = selector.start === undefined ? length - 1 : clamp(selector.start, -1, length - 1);
+        const end = selector.end === undefined ? -1 : clamp(selector.end, -1, length - 1);
+        for (let i = start; i > end; i += selector.step) selected.push(value[i]);
+      }
+      return selected;
+    }
+  }
+}
+
+// The node itself followed by everything below it, in document order
+function descendants(value: unknown, nodes: unknown[] = []): unknown[] {
+  nodes.push(value);
+  const children = Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+  for (const child of children) descendants(child, nodes);
+  return nodes;
+}
+
+/**
+ * Evaluate a compiled path against a parsed document. Returns every matched value.
+ */
+export function evaluateJsonPath(path: JsonPath, document: unknown): unknown[] {
+  let nodes: unknown[] = [document];
+  for (const segment of path.segments) {
+    const inputs = segment.descendant ? nodes.flatMap(node => descendants(node)) : nodes;
+    nodes = inputs.flatMap(node => segment.selectors.flatMap(selector => select(node, selector)));
+  }
+  return nodes;
+}
+
+/**
+ * Parse a whole file as JSON, evaluate the path and return one page of the result,
+ * encoded as a JSON array of matches. The result is recomputed for every page.
+ * Throws if the file is too large or is not JSON.
+ */
+export async function projectJsonFile(
+  filePath: string,
+  path: JsonPath,
+  start: number,
+  limitBytes: number
+): Promise<JsonPathResult> {
+  const size = getFileSizeSync(filePath);
+  if (size > MAX_JSON_INPUT_BYTES) {
+    throw new Error(`json_path can evaluate at most ${MAX_JSON_INPUT_BYTES} bytes of JSON; the output is ${size} bytes`);
+  }
+  const text = await readFileRange(filePath, 0, size);
+  if (text.trim().length === 0) {
+    throw new Error("json_path needs JSON output, but the output is empty");
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`json_path needs JSON output, but the output is not valid JSON: ${error.message}`);
+  }
+
+  const matches = evaluateJsonPath(path, document);
+  const encoded = Buffer.from(JSON.stringify(matches, null, 2), "utf8");
+  const bytesStart = Math.min(start, encoded.length);
+  let bytesEnd = Math.min(bytesStart + limitBytes, encoded.length);
+  // End the page on a complete UTF-8 character, like pages of raw output
+  if (bytesEnd < encoded.length) {
+    bytesEnd = bytesStart + utf8SafeLength(encoded.subarray(bytesStart, bytesEnd));
+  }
+  return {
+    chunk: encoded.subarray(bytesStart, bytesEnd).toString("utf8"),
+    matchCount: matches.length,
+    bytesStart,
+    bytesEnd,
+    totalBytes: encoded.length,
+    nextCursor: bytesEnd < encoded.length ? { cursor_type: "bytes", offset: bytesEnd } : undefined,
+  };
+}
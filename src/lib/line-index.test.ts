@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getLineIndex } from './line-index.js';
+
+describe('getLineIndex', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-lines-'));
+    file = join(dir, 'out.txt');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should map lines to offsets and back', async () => {
+    writeFileSync(file, 'one\ntwo\n\nfour');
+    const index = await getLineIndex(file);
+    expect(index.lineCount).toBe(4);
+    expect([1, 2, 3, 4, 5].map(n => index.lineStart(n))).toEqual([0, 4, 8, 9, 13]);
+    expect([0, 3, 4, 8, 12, 13].map(n => index.lineAt(n))).toEqual([1, 1, 2, 3, 4, 5]);
+  });
+
+  it('should not count a trailing newline as a line', async () => {
+    writeFileSync(file, 'a\nb\n');
+    expect((await getLineIndex(file)).lineCount).toBe(2);
+    writeFileSync(file, '');
+    expect((await getLineIndex(file)).lineCount).toBe(0);
+  });
+
+  it('should extend the index of a file that grew', async () => {
+    writeFileSync(file, 'a\nb');
+    expect((await getLineIndex(file)).lineCount).toBe(2);
+    appendFileSync(file, 'c\nd\n');
+    const index = await getLineIndex(file);
+    expect(index.lineCount).toBe(3);
+    expect(index.lineStart(3)).toBe(5);
+  });
+});
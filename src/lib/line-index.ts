@@ -0,0 +1,107 @@
+import { statSync } from "node:fs";
+import { spillFileSize, streamSpillFile } from "./spill-frames.js";
+
+/** ---------- Line Index ---------- */
+
+// Indexes are cached per file. A file that only grew (a running job's spill file) is
+// indexed from where the previous scan stopped; any other change rebuilds the index.
+const MAX_CACHED_INDEXES = 16;
+
+export type LineIndex = {
+  bytes: number;              // file size when the index was built
+  lineCount: number;          // an empty file has no lines; a trailing newline does not start one
+  lineStart(line: number): number;   // byte offset of a 1-based line; the file size past the last line
+  lineAt(offset: number): number;    // 1-based line containing a byte offset
+};
+
+type CachedIndex = {
+  size: number;
+  mtimeMs: number;
+  starts: Float64Array;       // byte offset of every line start, in order
+  count: number;
+  endsWithNewline: boolean;
+};
+
+const cache = new Map<string, CachedIndex>();
+
+/**
+ * Return the line index of a file, building it on first use. Seeking to a line is then
+ * a lookup and finding the line of an offset is a binary search.
+ */
+export async function getLineIndex(filePath: string): Promise<LineIndex> {
+  const { mtimeMs } = statSync(filePath);
+  const size = spillFileSize(filePath);
+  let entry = cache.get(filePath);
+
+  if (!entry || size < entry.size || (size === entry.size && mtimeMs !== entry.mtimeMs)) {
+    entry = { size: 0, mtimeMs, starts: new Float64Array(1024), count: 0, endsWithNewline: true };
+  }
+  if (size > entry.size) {
+    await extendIndex(filePath, entry, size);
+    entry.mtimeMs = mtimeMs;
+  }
+
+  // Most recently used last
+  cache.delete(filePath);
+  cache.set(filePath, entry);
+  while (cache.size > MAX_CACHED_INDEXES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return toLineIndex(entry);
+}
+
+/**
+ * Drop the cached index of a file, e.g. when it is deleted
+ */
+export function forgetLineIndex(filePath: string): void {
+  cache.delete(filePath);
+}
+
+async function extendIndex(filePath: string, entry: CachedIndex, size: number): Promise<void> {
+  const push = (offset: number) => {
+    if (entry.count === entry.starts.length) {
+      const grown = new Float64Array(entry.starts.length * 2);
+      grown.set(entry.starts);
+      entry.starts = grown;
+    }
+    entry.starts[entry.count++] = offset;
+  };
+
+  let position = entry.size;
+  for await (const chunk of streamSpillFile(filePath, entry.size, size)) {
+    if (chunk.length === 0) continue;
+    // The byte after a newline (or the first byte of the file) starts a line
+    if (entry.endsWithNewline) push(position);
+    let newline = chunk.indexOf(10);
+    while (newline !== -1) {
+      if (newline + 1 < chunk.length) push(position + newline + 1);
+      newline = chunk.indexOf(10, newline + 1);
+    }
+    entry.endsWithNewline = chunk[chunk.length - 1] === 10;
+    position += chunk.length;
+  }
+  entry.size = position;
+}
+
+function toLineIndex(entry: CachedIndex): LineIndex {
+  const { size, count, starts } = entry;
+  return {
+    bytes: size,
+    lineCount: count,
+    lineStart(line: number): number {
+      if (line < 1) return 0;
+      return line <= count ? starts[line - 1]! : size;
+    },
+    lineAt(offset: number): number {
+      let low = 0;
+      let high = count - 1;
+      if (high < 0 || offset >= size) return count + 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (starts[mid]! <= offset) low = mid;
+        else high = mid - 1;
+      }
+      return low + 1;
+    },
+  };
+}
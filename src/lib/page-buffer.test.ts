@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { type PageBuffer, createPageBuffer, createTailBuffer } from './page-buffer.js';
+
+describe('createPageBuffer', () => {
+  const pushAll = (buffer: PageBuffer, text: string, chunkBytes: number) => {
+    for (let start = 0; start < text.length; start += chunkBytes) {
+      buffer.push(Buffer.from(text.slice(start, start + chunkBytes)));
+    }
+  };
+
+  it('should keep only its byte range of the stream', () => {
+    const text = 'abcdefghijklmnopqrstuvwxyz';
+    const buffer = createPageBuffer(5, 10);
+    pushAll(buffer, text, 3);
+    expect(buffer.bytes().toString()).toBe('fghijklmno');
+  });
+
+  it('should grow up to its capacity and no further', () => {
+    const text = 'x'.repeat(100_000);
+    const buffer = createPageBuffer(0, 40_000);
+    pushAll(buffer, text, 7_000);
+    expect(buffer.bytes().length).toBe(40_000);
+  });
+
+  it('should hold less than its range when the stream is shorter', () => {
+    const buffer = createPageBuffer(2, 100);
+    pushAll(buffer, 'hello', 2);
+    expect(buffer.bytes().toString()).toBe('llo');
+    expect(createPageBuffer(10, 100).bytes().length).toBe(0);
+  });
+});
+
+describe('createTailBuffer', () => {
+  const pushAll = (buffer: PageBuffer, text: string, chunkBytes: number) => {
+    for (let start = 0; start < text.length; start += chunkBytes) {
+      buffer.push(Buffer.from(text.slice(start, start + chunkBytes)));
+    }
+  };
+
+  it('should keep the most recent bytes of the stream', () => {
+    const text = 'abcdefghijklmnopqrstuvwxyz';
+    for (const chunkBytes of [1, 3, 7, 26]) {
+      const buffer = createTailBuffer(10);
+      pushAll(buffer, text, chunkBytes);
+      expect(buffer.bytes().toString()).toBe('qrstuvwxyz');
+      expect(buffer.start).toBe(16);
+    }
+  });
+
+  it('should grow up to its capacity before it wraps', () => {
+    const text = Array.from({ length: 20_000 }, (_, i) => `${i}\n`).join('');
+    const buffer = createTailBuffer(40_000);
+    pushAll(buffer, text, 7_000);
+    expect(buffer.bytes().toString()).toBe(text.slice(-40_000));
+    expect(buffer.start).toBe(text.length - 40_000);
+  });
+
+  it('should hold the whole stream when it is shorter', () => {
+    const buffer = createTailBuffer(100);
+    pushAll(buffer, 'hello', 2);
+    expect(buffer.bytes().toString()).toBe('hello');
+    expect(buffer.start).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+/** ---------- Page Buffer ---------- */
+
+// execWithPagination keeps the bytes of the page it returns in memory: the page of a
+// command without a spill file, and the fallback when a spill file cannot be read.
+// A page buffer holds one fixed byte range of a stream, or for tail cursors a ring of
+// its most recent bytes. Other bytes are counted and dropped, so memory stays bounded
+// however much a command writes, and the buffer never re-concatenates what it holds.
+const INITIAL_CAPACITY = 16 * 1024;
+
+export type PageBuffer = {
+  readonly start: number;       // stream offset of the first byte held
+  push(chunk: Buffer): void;
+  bytes(): Buffer;              // the bytes held so far (a view, not a copy)
+};
+
+/**
+ * Create a buffer for bytes start to start + capacity of a stream. Storage grows by
+ * doubling up to capacity, so small outputs do not allocate the whole range.
+ */
+export function createPageBuffer(start: number, capacity: number): PageBuffer {
+  let storage = Buffer.allocUnsafe(Math.min(capacity, INITIAL_CAPACITY));
+  let length = 0;
+  let position = 0;   // stream offset of the next byte pushed
+
+  return {
+    start,
+    push(chunk: Buffer) {
+      const from = Math.max(0, start - position);
+      const to = Math.min(chunk.length, start + capacity - position);
+      position += chunk.length;
+      if (from >= to) return;
+
+      const needed = length + to - from;
+      if (needed > storage.length) {
+        let size = storage.length;
+        while (size < needed) size *= 2;
+        const grown = Buffer.allocUnsafe(Math.min(size, capacity));
+        storage.copy(grown, 0, 0, length);
+        storage = grown;
+      }
+      chunk.copy(storage, length, from, to);
+      length = needed;
+    },
+    bytes() {
+      return storage.subarray(0, length);
+    },
+  };
+}
+
+/**
+ * Create a ring buffer for the last capacity bytes of a stream. Storage grows by
+ * doubling up to capacity; after that the oldest bytes are overwritten and start
+ * moves forward.
+ */
+export function createTailBuffer(capacity: number): PageBuffer {
+  let storage = Buffer.allocUnsafe(Math.min(capacity, INITIAL_CAPACITY));
+  let head = 0;       // index of the oldest byte held; only moves once storage is full
+  let length = 0;
+  let position = 0;   // stream offset of the next byte pushed
+
+  return {
+    get start() {
+      return position - length;
+    },
+    push(chunk: Buffer) {
+      position += chunk.length;
+      const data = chunk.length > capacity ? chunk.subarray(chunk.length - capacity) : chunk;
+      if (data.length === 0) return;
+
+      const needed = length + data.length;
+      if (needed > storage.length && storage.length < capacity) {
+        // Not wrapped yet, so the bytes held start at index 0
+        let size = storage.length;
+        while (size < needed) size *= 2;
+        const grown = Buffer.allocUnsafe(Math.min(size, capacity));
+        storage.copy(grown, 0, 0, length);
+        storage = grown;
+      }
+      const write = (head + length) % storage.length;
+      const first = Math.min(data.length, storage.length - write);
+      data.copy(storage, write, 0, first);
+      data.copy(storage, 0, first);
+      if (needed > storage.length) {
+        head = (head + needed - storage.length) % storage.length;
+        length = storage.length;
+      } else {
+        length = needed;
+      }
+    },
+    bytes() {
+      if (head === 0) return storage.subarray(0, length);
+      return Buffer.concat([storage.subarray(head, length), storage.subarray(0, head)]);
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCursor, readPage } from './pagination.js';
+
+describe('parseCursor', () => {
+  it('should parse bytes, lines and tail cursors', () => {
+    expect(parseCursor({ cursor_type: 'bytes', offset: 5 })).toEqual({ type: 'bytes', offset: 5 });
+    expect(parseCursor({ cursor_type: 'lines', line: 3 })).toEqual({ type: 'lines', line: 3 });
+    expect(parseCursor({ cursor_type: 'tail', lines: 10 })).toEqual({ type: 'tail', lines: 10 });
+    expect(parseCursor({ cursor_type: 'tail', bytes: 100 })).toEqual({ type: 'tail', bytes: 100 });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => parseCursor({ cursor_type: 'tail' })).toThrow("exactly one of 'lines' or 'bytes'");
+    expect(() => parseCursor({ cursor_type: 'lines', line: 0 })).toThrow("'line' must be an integer ≥ 1");
+    expect(() => parseCursor({ cursor_type: 'pages', offset: 0 })).toThrow("unsupported cursor_type 'pages'");
+  });
+});
+
+describe('readPage', () => {
+  let dir: string;
+  let file: string;
+  const content = Array.from({ length: 100 }, (_, i) => `line ${i + 1}\n`).join('');
+  const total = Buffer.byteLength(content);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-page-'));
+    file = join(dir, 'out.txt');
+    writeFileSync(file, content);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep byte pages unchanged without limit_lines', async () => {
+    const page = await readPage(file, total, { type: 'bytes', offset: 0 }, 10);
+    expect(page.chunk).toBe('line 1\nlin');
+    expect(page.nextCursor).toEqual({ cursor_type: 'bytes', offset: 10 });
+  });
+
+  it('should end pages on a newline when limit_lines is set', async () => {
+    const byLines = await readPage(file, total, { type: 'bytes', offset: 0 }, 1000, 3);
+    expect(byLines.chunk).toBe('line 1\nline 2\nline 3\n');
+    expect(byLines.nextCursor).toEqual({ cursor_type: 'bytes', offset: 21 });
+
+    const byBytes = await readPage(file, total, { type: 'bytes', offset: 0 }, 10, 3);
+    expect(byBytes.chunk).toBe('line 1\n');
+  });
+
+  it('should page by line with a lines cursor', async () => {
+    const page = await readPage(file, total, { type: 'lines', line: 50 }, 1000, 2);
+    expect(page.chunk).toBe('line 50\nline 51\n');
+    expect(page.nextCursor).toEqual({ cursor_type: 'lines', line: 52 });
+  });
+
+  it('should start tail cursors before the end', async () => {
+    const lines = await readPage(file, total, { type: 'tail', lines: 2 }, 1000);
+    expect(lines.chunk).toBe('line 99\nline 100\n');
+    expect(lines.nextCursor).toBeUndefined();
+
+    const bytes = await readPage(file, total, { type: 'tail', bytes: 4 }, 1000);
+    expect(bytes.chunk).toBe('100\n');
+    expect(bytes.start).toBe(total - 4);
+  });
+});
@@ -1,21 +1,44 @@
-import { existsSync, unlinkSync, mkdirSync, createReadStream, statSync } from "node:fs";
-import { join } from "node:path";
-import { homedir } from "node:os";
+import { existsSync, unlinkSync, mkdirSync } from "node:fs";
+import { join, basename } from "node:path";
 import { randomUUID } from "node:crypto";
 import { debugLog } from "./debug.js";
+import { spillDirectory, spillPaths, isSpillPinned, deleteSpillMeta } from "./spill-catalog.js";
+import { type LineIndex, getLineIndex, forgetLineIndex } from "./line-index.js";
+import { type ChunkEncoding, encodeChunk, sniffMimeType, MIME_SNIFF_BYTES } from "./encoding.js";
+import { readSpillBytes, spillFileSize, forgetFrameIndex } from "./spill-frames.js";
 
 export const MAX_PAGE_LIMIT_BYTES = 40000;
+export const SPILL_URI_PREFIX = "mcp://tmp/";
 export const DEFAULT_PAGE_LIMIT_BYTES = MAX_PAGE_LIMIT_BYTES;
 
 /** ---------- Pagination Types ---------- */
 
 export type CursorConfig = {
-  cursor_type: string;    // type of cursor positioning (currently only "bytes" supported)
-  offset: number;         // byte offset from start of output stream (must be ≥ 0)
+  cursor_type: string;    // "bytes", "lines" or "tail"
+  offset?: number;        // bytes: byte offset from start of output stream (must be ≥ 0)
+  line?: number;          // lines: 1-based line to start at; bytes: line number at offset (filtered pages)
+  lines?: number;         // tail: start this many lines before the end
+  bytes?: number;         // tail: start this many bytes before the end
+};
+
+export type ParsedCursor =
+  | { type: "bytes"; offset: number; line?: number }
+  | { type: "lines"; line: number }
+  | { type: "tail"; lines: number }
+  | { type: "tail"; bytes: number };
+
+export type Page = {
+  chunk: string;          // UTF-8 text, or base64 for binary content
+  encoding: ChunkEncoding;
+  mime?: string;          // sniffed type of binary content
+  start: number;          // byte range of the chunk
+  end: number;
+  nextCursor: CursorConfig | undefined;
 };
 
 export type PaginationConfig = {
   cursor?: CursorConfig;  // position marker object for pagination (required when using pagination)
+  stderr_cursor?: CursorConfig;  // position marker for stderr when paging a stored exec result
   limit_bytes?: number;   // default & maximum: 40 KB
   limit_lines?: number;   // optional: stops on whichever hits first
 };
@@ -32,22 +55,37 @@ export type SpillFile = {
 
 /** ---------- Pagination Helpers ---------- */
 
-export function parseCursor(cursor: CursorConfig | undefined | null): { type: string; offset: number } {
+export function parseCursor(cursor: CursorConfig | undefined | null): ParsedCursor {
   // Handle object format only (no legacy string support)
   if (!cursor || typeof cursor !== 'object') {
     throw new Error(`Invalid cursor format: expected object, got ${typeof cursor}. Cursor must be an object with 'cursor_type' and 'offset' properties.`);
   }
 
-  // TypeScript should ensure this is a CursorConfig at this point, but let's be safe
-  const cursorConfig = cursor as CursorConfig;
-
   if (!cursor.cursor_type || typeof cursor.cursor_type !== 'string') {
     throw new Error(`Invalid cursor format: missing or invalid 'cursor_type' property. Expected string, got ${typeof cursor.cursor_type}.`);
   }
 
-  // Validate cursor_type is supported
-  if (cursor.cursor_type !== 'bytes') {
-    throw new Error(`Invalid cursor format: unsupported cursor_type '${cursor.cursor_type}'. Currently only 'bytes' is supported.`);
+  const count = (value: unknown, name: string, min: number): number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      throw new Error(`Invalid cursor format: '${name}' must be an integer ≥ ${min}, got ${value}.`);
+    }
+    return value;
+  };
+
+  switch (cursor.cursor_type) {
+    case 'bytes':
+      break;
+    case 'lines':
+      return { type: 'lines', line: count(cursor.line ?? 1, 'line', 1) };
+    case 'tail':
+      if ((cursor.lines === undefined) === (cursor.bytes === undefined)) {
+        throw new Error(`Invalid cursor format: a 'tail' cursor needs exactly one of 'lines' or 'bytes'.`);
+      }
+      return cursor.lines !== undefined
+        ? { type: 'tail', lines: count(cursor.lines, 'lines', 0) }
+        : { type: 'tail', bytes: count(cursor.bytes, 'bytes', 0) };
+    default:
+      throw new Error(`Invalid cursor format: unsupported cursor_type '${cursor.cursor_type}'. Supported types are 'bytes', 'lines' and 'tail'.`);
   }
 
   // Coerce and validate offset
@@ -64,14 +102,113 @@ export function parseCursor(cursor: CursorConfig | undefined | null): { type: st
     }
   }
 
+  if (cursor.line !== undefined && (!Number.isInteger(cursor.line) || cursor.line < 1)) {
+    throw new Error(`Invalid cursor format: 'line' must be a positive integer, got ${cursor.line}.`);
+  }
+
   return {
-    type: cursorConfig.cursor_type,
-    offset: offset
+    type: 'bytes',
+    offset: offset,
+    ...(cursor.line !== undefined ? { line: cursor.line } : {})
   };
 }
 
+/**
+ * True if a cursor starts anywhere but the beginning of the stream
+ */
+export function isCursorPastStart(cursor: ParsedCursor): boolean {
+  return (cursor.type === 'bytes' && cursor.offset > 0) || (cursor.type === 'lines' && cursor.line > 1);
+}
+
+/**
+ * Turn a cursor into a byte offset within a file of totalBytes bytes, and the line
+ * number at that offset when it is known without scanning. Line and tail-line cursors
+ * use the file's line index.
+ */
+export async function resolveCursor(
+  filePath: string,
+  totalBytes: number,
+  cursor: ParsedCursor
+): Promise<{ offset: number; line?: number }> {
+  if (cursor.type === 'bytes') {
+    const offset = Math.min(cursor.offset, totalBytes);
+    return cursor.line !== undefined ? { offset, line: cursor.line } : { offset };
+  }
+  if ('bytes' in cursor) {
+    return { offset: Math.max(0, totalBytes - cursor.bytes) };
+  }
+  const index = await getLineIndex(filePath);
+  const line = cursor.type === 'lines' ? cursor.line : Math.max(1, index.lineCount - cursor.lines + 1);
+  return { offset: Math.min(index.lineStart(line), totalBytes), line };
+}
+
+/**
+ * Read one page of a file from a cursor. A page holds at most limitBytes bytes and,
+ * when limitLines is given, at most that many lines. Pages of line-based reads (limitLines
+ * set, or a 'lines' or tail-lines cursor) end on a newline unless a single line is longer
+ * than limitBytes; their next cursor is a 'lines' cursor for line-based cursor types.
+ * Text pages end on a complete UTF-8 character; binary pages are base64-encoded.
+ */
+export async function readPage(
+  filePath: string,
+  totalBytes: number,
+  cursor: ParsedCursor,
+  limitBytes: number,
+  limitLines?: number
+): Promise<Page> {
+  const { offset: start, line } = await resolveCursor(filePath, totalBytes, cursor);
+  let end = Math.min(start + limitBytes, totalBytes);
+
+  const lineCursor = cursor.type === 'lines' || (cursor.type === 'tail' && 'lines' in cursor);
+  let index: LineIndex | undefined;
+  if (lineCursor || limitLines !== undefined) {
+    index = await getLineIndex(filePath);
+    const startLine = line ?? index.lineAt(start);
+    if (limitLines !== undefined) {
+      end = Math.min(end, index.lineStart(startLine + limitLines));
+    }
+    // Back up to the start of the line the page would cut through
+    const lineStart = index.lineStart(index.lineAt(end));
+    if (end < totalBytes && lineStart > start) {
+      end = lineStart;
+    }
+  }
+
+  const data = await readFileBytes(filePath, start, end);
+  const encoded = encodeChunk(data, end >= totalBytes);
+  end = start + encoded.end;
+  let mime: string | undefined;
+  if (encoded.encoding === "base64") {
+    mime = sniffMimeType(start === 0 ? data : await readFileBytes(filePath, 0, Math.min(MIME_SNIFF_BYTES, totalBytes)));
+  }
+
+  let nextCursor: CursorConfig | undefined;
+  if (end < totalBytes) {
+    const atLineStart = index !== undefined && index.lineStart(index.lineAt(end)) === end;
+    nextCursor = lineCursor && atLineStart
+      ? { cursor_type: 'lines', line: index!.lineAt(end) }
+      : { cursor_type: 'bytes', offset: end };
+  }
+  return { chunk: encoded.chunk, encoding: encoded.encoding, ...(mime ? { mime } : {}), start, end, nextCursor };
+}
+
+/**
+ * Map an mcp://tmp/... spill URI to its file path. Throws for other URIs and for
+ * names that would escape the spill directory.
+ */
+export function spillUriToPath(uri: string): string {
+  if (typeof uri !== "string" || !uri.startsWith(SPILL_URI_PREFIX)) {
+    throw new Error(`Invalid URI format. Expected ${SPILL_URI_PREFIX}..., got: ${uri}`);
+  }
+  const fileName = uri.substring(SPILL_URI_PREFIX.length);
+  if (fileName.length === 0 || fileName !== basename(fileName) || fileName === "." || fileName === "..") {
+    throw new Error(`Invalid spill file name in URI: ${uri}`);
+  }
+  return join(spillDirectory(), fileName);
+}
+
 export function createSpillFile(): SpillFile {
-  const tempDir = join(homedir(), ".shemcp", "tmp");
+  const tempDir = spillDirectory();
   mkdirSync(tempDir, { recursive: true });
 
   const id = randomUUID();
@@ -86,9 +223,18 @@ export function createSpillFile(): SpillFile {
     stderrUri,
     stderrPath,
     cleanup: () => {
+      // Pinned spills are kept until spill_delete
+      if (isSpillPinned(path)) {
+        debugLog("Kept pinned spill file", { path });
+        return;
+      }
       const errors: string[] = [];
 
       try {
+        forgetLineIndex(path);
+        forgetLineIndex(stderrPath);
+        forgetFrameIndex(path);
+        forgetFrameIndex(stderrPath);
         if (existsSync(path)) {
           unlinkSync(path);
           debugLog("Cleaned up stdout spill file", { path });
@@ -110,6 +256,18 @@ export function createSpillFile(): SpillFile {
         debugLog(errorMsg);
       }
 
+      // The chunk index of merged output
+      const { chunks } = spillPaths(tempDir, `exec-${id}`);
+      try {
+        if (existsSync(chunks)) unlinkSync(chunks);
+      } catch (e) {
+        const errorMsg = `Failed to cleanup chunk index ${chunks}: ${e}`;
+        errors.push(errorMsg);
+        debugLog(errorMsg);
+      }
+
+      deleteSpillMeta(path);
+
       if (errors.length > 0) {
         debugLog("Spill file cleanup completed with errors", { errors });
       }
@@ -161,34 +319,24 @@ export function countLines(content: string): number {
 }
 
 export async function readFileRange(filePath: string, start: number, end: number): Promise<string> {
-   // Handle edge case where end <= start to avoid ERR_OUT_OF_RANGE
-   if (end <= start) {
-     return Promise.resolve('');
-   }
-
-   // Use createReadStream to read only the requested byte range
-   return new Promise<string>((resolve, reject) => {
-     const chunks: Buffer[] = [];
-     let totalBytesRead = 0;
-
-     const stream = createReadStream(filePath, { start, end: end - 1 });
-
-     stream.on('data', (chunk: any) => {
-       chunks.push(Buffer.from(chunk));
-       totalBytesRead += Buffer.from(chunk).length;
-     });
-
-     stream.on('end', () => {
-       const buffer = Buffer.concat(chunks);
-       resolve(buffer.toString('utf8'));
-     });
+  return (await readFileBytes(filePath, start, end)).toString('utf8');
+}
 
-     stream.on('error', (error) => {
-       reject(error);
-     });
-   });
- }
+/**
+ * Read bytes start to end of a spill file. Offsets refer to the uncompressed output,
+ * so compressed spill files read like raw ones.
+ */
+export async function readFileBytes(filePath: string, start: number, end: number): Promise<Buffer> {
+  // Handle edge case where end <= start to avoid ERR_OUT_OF_RANGE
+  if (end <= start) {
+    return Buffer.alloc(0);
+  }
+  return readSpillBytes(filePath, start, end);
+}
 
+/**
+ * Size of a spill file's output; the uncompressed size for compressed spill files
+ */
 export function getFileSizeSync(filePath: string): number {
-  return statSync(filePath).size;
+  return spillFileSize(filePath);
 }
@@ -0,0 +1,162 @@
+import type { Policy } from "./policy.js";
+import { makeRegex } from "./policy.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Runtime Policy Changes (shell_set_policy) ---------- */
+
+export type PolicyChange = {
+  reason: string;                  // why the caller wants the change; kept in the history
+  add_allow?: string[] | undefined;
+  remove_allow?: string[] | undefined;
+  add_deny?: string[] | undefined;
+  remove_deny?: string[] | undefined;  // refused unless security.allow_runtime_deny_removal
+  timeout_seconds?: number | undefined;    // may only lower the current limit
+  max_output_bytes?: number | undefined;   // may only lower the current limit
+  remove_env?: string[] | undefined;       // env var names to drop from the whitelist
+};
+
+export type RuntimePolicyChange = PolicyChange & {
+  applied_at: string;
+};
+
+const PATTERN_FIELDS = ["add_allow", "remove_allow", "add_deny", "remove_deny"] as const;
+
+function compilePattern(pattern: string): RegExp {
+  try {
+    return makeRegex(pattern);
+  } catch (error: any) {
+    throw new Error(`Invalid pattern '${pattern}': ${error.message}`);
+  }
+}
+
+/**
+ * Reject changes that are malformed, loosen deny rules without the opt-in, or raise limits
+ */
+function validatePolicyChange(policy: Policy, change: PolicyChange): void {
+  if (typeof change.reason !== "string" || change.reason.trim().length === 0) {
+    throw new Error("reason is required");
+  }
+
+  for (const field of PATTERN_FIELDS) {
+    const patterns = change[field];
+    if (patterns === undefined) continue;
+    if (!Array.isArray(patterns) || patterns.some(p => typeof p !== "string" || p.length === 0)) {
+      throw new Error(`${field} must be an array of non-empty strings`);
+    }
+    patterns.forEach(compilePattern);
+  }
+  if (change.remove_env !== undefined && (!Array.isArray(change.remove_env) || change.remove_env.some(k => typeof k !== "string"))) {
+    throw new Error("remove_env must be an array of strings");
+  }
+
+  if (change.remove_deny?.length && !policy.allowDenyRemoval) {
+    throw new Error("Removing deny patterns is disabled (security.allow_runtime_deny_removal = false)");
+  }
+  for (const pattern of change.remove_allow ?? []) {
+    const source = compilePattern(pattern).source;
+    if (!policy.allow.some(r => r.source === source)) {
+      throw new Error(`remove_allow: '${pattern}' is not in the allow list`);
+    }
+  }
+  for (const pattern of change.remove_deny ?? []) {
+    const source = compilePattern(pattern).source;
+    if (!policy.deny.some(r => r.source === source)) {
+      throw new Error(`remove_deny: '${pattern}' is not in the deny list`);
+    }
+  }
+
+  const currentTimeoutSeconds = policy.timeoutMs / 1000;
+  if (change.timeout_seconds !== undefined) {
+    const seconds = change.timeout_seconds;
+    if (typeof seconds !== "number" || !Number.isInteger(seconds) || seconds < 1 || seconds > currentTimeoutSeconds) {
+      throw new Error(`timeout_seconds can only be lowered: expected an integer between 1 and ${currentTimeoutSeconds}`);
+    }
+  }
+  if (change.max_output_bytes !== undefined) {
+    const bytes = change.max_output_bytes;
+    if (typeof bytes !== "number" || !Number.isInteger(bytes) || bytes < 1000 || bytes > policy.maxBytes) {
+      throw new Error(`max_output_bytes can only be lowered: expected an integer between 1000 and ${policy.maxBytes}`);
+    }
+  }
+
+  const hasChange = PATTERN_FIELDS.some(f => change[f]?.length)
+    || change.timeout_seconds !== undefined
+    || change.max_output_bytes !== undefined
+    || !!change.remove_env?.length;
+  if (!hasChange) {
+    throw new Error("No policy changes given");
+  }
+}
+
+/**
+ * Apply an already validated change. Limits take the minimum so that replaying a
+ * change over a reloaded config never raises them.
+ */
+function mutatePolicy(policy: Policy, change: PolicyChange): void {
+  const withoutSources = (list: RegExp[], patterns: string[] | undefined) => {
+    const sources = new Set((patterns ?? []).map(p => compilePattern(p).source));
+    return list.filter(r => !sources.has(r.source));
+  };
+  const withPatterns = (list: RegExp[], patterns: string[] | undefined) => {
+    const next = [...list];
+    for (const pattern of patterns ?? []) {
+      const regex = compilePattern(pattern);
+      if (!next.some(r => r.source === regex.source)) next.push(regex);
+    }
+    return next;
+  };
+
+  policy.allow = withPatterns(withoutSources(policy.allow, change.remove_allow), change.add_allow);
+  policy.deny = withPatterns(
+    policy.allowDenyRemoval ? withoutSources(policy.deny, change.remove_deny) : policy.deny,
+    change.add_deny
+  );
+  if (change.timeout_seconds !== undefined) {
+    policy.timeoutMs = Math.min(policy.timeoutMs, change.timeout_seconds * 1000);
+  }
+  if (change.max_output_bytes !== undefined) {
+    policy.maxBytes = Math.min(policy.maxBytes, change.max_output_bytes);
+  }
+  if (change.remove_env?.length) {
+    policy.envWhitelist = policy.envWhitelist.filter(k => !change.remove_env!.includes(k));
+  }
+}
+
+/**
+ * Validate and apply a session-scoped policy change, recording it in policy.runtimeChanges.
+ * Throws if runtime changes are disabled or the change is not permitted.
+ */
+export function applyPolicyChange(policy: Policy, change: PolicyChange): RuntimePolicyChange {
+  if (!policy.allowRuntimeChanges) {
+    throw new Error("Runtime policy changes are disabled (security.allow_runtime_policy_changes = false)");
+  }
+  validatePolicyChange(policy, change);
+
+  // Keep only known fields; tool arguments may carry anything
+  const record: RuntimePolicyChange = { reason: change.reason.trim(), applied_at: new Date().toISOString() };
+  for (const field of [...PATTERN_FIELDS, "remove_env"] as const) {
+    if (change[field] !== undefined) record[field] = change[field];
+  }
+  if (change.timeout_seconds !== undefined) record.timeout_seconds = change.timeout_seconds;
+  if (change.max_output_bytes !== undefined) record.max_output_bytes = change.max_output_bytes;
+  mutatePolicy(policy, record);
+  policy.runtimeChanges.push(record);
+  debugLog("Runtime policy change applied", record);
+  return record;
+}
+
+/**
+ * Re-apply earlier runtime changes to a policy rebuilt from reloaded config.
+ * Nothing is replayed if the new config disables runtime changes.
+ */
+export function replayPolicyChanges(policy: Policy, changes: RuntimePolicyChange[]): void {
+  if (changes.length === 0) return;
+  if (!policy.allowRuntimeChanges) {
+    debugLog("Dropping runtime policy changes: disabled by reloaded config", { count: changes.length });
+    return;
+  }
+  for (const change of changes) {
+    mutatePolicy(policy, change);
+    policy.runtimeChanges.push(change);
+  }
+}
@@ -2,6 +2,12 @@ import { accessSync, constants, realpathSync } from "node:fs";
 import { resolve, relative as pathRelative, isAbsolute as pathIsAbsolute } from "node:path";
 import type { Config } from "../config/index.js";
 import { validateWorktreePath, isWithinAllowedWorktrees } from "./worktree.js";
+import { parseShellCommand, parseShellScript, parseShellWrapper } from "./command.js";
+import { type StructuredRule, compileStructuredRule, matchStructuredRule } from "./rules.js";
+import type { RuntimePolicyChange } from "./policy-changes.js";
+import type { SpillLimits } from "./spill-retention.js";
+import type { SpillCompression } from "./spill-frames.js";
+import type { SummarySettings } from "./summary.js";
 import { debugLog } from "./debug.js";
 
 /** ---------- Policy Types ---------- */
@@ -11,18 +17,36 @@ export type Policy = {
   worktreeDetectionEnabled: boolean;  // toggle for worktree detection feature
   allow: RegExp[];     // full command line allow list, e.g. /^git(\s|$)/, /^gh(\s|$)/
   deny: RegExp[];      // explicit denies, e.g. /^git\s+push(\s+.*)?\s+(origin\s+)?(main|master)(\s+.*)?$/i
+  ask: RegExp[];       // commands that need interactive approval, e.g. /^rm\s+-r/
+  sessionApprovals: Set<string>;  // argv (JSON-encoded) the user approved for the rest of the session
+  rules: StructuredRule[];  // structured argv rules from [[commands.rules]]
   timeoutMs: number;   // hard cap per command
+  killGraceMs: number; // SIGTERM -> SIGKILL grace period when terminating a process group
   maxBytes: number;    // cap stdout/stderr per stream
+  maxStdinBytes: number;  // cap on stdin fed to a command
+  maxJobs: number;     // cap on concurrently running background jobs
+  spillLimits: SpillLimits;  // retention and disk quota for spill files
+  spillCompression: SpillCompression;  // how shell_exec stores spill files
+  summary: SummarySettings;  // summary and previews of output with more pages
   envWhitelist: string[]; // which env vars to forward
+  allowRuntimeChanges: boolean;  // shell_set_policy is available
+  allowDenyRemoval: boolean;     // shell_set_policy may remove deny patterns
+  runtimeChanges: RuntimePolicyChange[];  // shell_set_policy changes applied this session
 };
 
 export type PolicyCheckResult = {
   allowed: boolean;
   reason: string;
   matchedRule?: string;
-  ruleType?: 'allow' | 'deny';
+  ruleType?: 'allow' | 'deny' | 'ask';  // 'ask' results are not allowed until the user approves them
+  ruleKind?: 'regex' | 'structured';  // regex (commands.allow/deny) or [[commands.rules]] entry
+  segment?: string;    // for shell scripts: the simple command this result applies to
+  approvals?: string[][];  // for ask results: every command (argv) that needs approval
 };
 
+// Nested bash/sh -c wrappers deeper than this are denied rather than unwrapped
+const MAX_WRAPPER_DEPTH = 8;
+
 /** ---------- Policy Utilities ---------- */
 export const makeRegex = (s: string) => new RegExp(s, "i");
 
@@ -34,39 +58,129 @@ export function createPolicyFromConfig(config: Config): Policy {
     worktreeDetectionEnabled: config.security.worktree_detection,
     allow: config.commands.allow.map(makeRegex),
     deny: config.commands.deny.map(makeRegex),
+    ask: config.commands.ask.map(makeRegex),
+    sessionApprovals: new Set<string>(),
+    rules: config.commands.rules.map(compileStructuredRule),
     timeoutMs: config.limits.timeout_seconds * 1000,
+    killGraceMs: config.limits.kill_grace_seconds * 1000,
     maxBytes: config.limits.max_output_bytes,
-    envWhitelist: config.environment.whitelist
+    maxStdinBytes: config.limits.max_stdin_bytes,
+    maxJobs: config.limits.max_jobs,
+    spillLimits: {
+      maxAgeMs: config.spill.max_age_seconds * 1000,
+      maxTotalBytes: config.spill.max_total_bytes,
+      maxFileBytes: config.spill.max_file_bytes
+    },
+    spillCompression: config.spill.compression,
+    summary: {
+      errorPatterns: config.summary.error_patterns.map(makeRegex),
+      warningPatterns: config.summary.warning_patterns.map(makeRegex),
+      maxLineNumbers: config.summary.max_line_numbers,
+      previewBytes: config.summary.preview_bytes
+    },
+    envWhitelist: config.environment.whitelist,
+    allowRuntimeChanges: config.security.allow_runtime_policy_changes,
+    allowDenyRemoval: config.security.allow_runtime_deny_removal,
+    runtimeChanges: []
   };
 }
 
+/**
+ * Key under which an approved argv is remembered in policy.sessionApprovals
+ */
+export function sessionApprovalKey(argv: string[]): string {
+  return JSON.stringify(argv);
+}
+
 /**
  * Check if a command is allowed by policy and return detailed diagnostics
  * @param full The full command line to check
  * @param policy The policy to check against
+ * @param argv The tokenized command for structured rules (defaults to tokenizing `full`)
  * @returns Detailed result with reason for allow/deny decision
  */
-export function checkCommandPolicy(full: string, policy: Policy): PolicyCheckResult {
+export function checkCommandPolicy(full: string, policy: Policy, argv: string[] = parseShellCommand(full)): PolicyCheckResult {
   // Check deny rules first (they have priority)
+  for (const rule of policy.rules) {
+    if (rule.action === 'deny' && matchStructuredRule(rule, argv)) {
+      return {
+        allowed: false,
+        reason: `Command matches structured deny rule`,
+        matchedRule: rule.name,
+        ruleType: 'deny',
+        ruleKind: 'structured'
+      };
+    }
+  }
+
   for (const denyRule of policy.deny) {
     if (denyRule.test(full)) {
       return {
         allowed: false,
         reason: `Command matches deny rule`,
         matchedRule: denyRule.source,
-        ruleType: 'deny'
+        ruleType: 'deny',
+        ruleKind: 'regex'
+      };
+    }
+  }
+
+  // Commands the user already approved for this session skip the ask rules
+  if (policy.sessionApprovals.has(sessionApprovalKey(argv))) {
+    return {
+      allowed: true,
+      reason: `Command was approved for this session`
+    };
+  }
+
+  // Check ask rules (they take priority over allow rules)
+  for (const rule of policy.rules) {
+    if (rule.action === 'ask' && matchStructuredRule(rule, argv)) {
+      return {
+        allowed: false,
+        reason: `Command matches structured ask rule and needs approval`,
+        matchedRule: rule.name,
+        ruleType: 'ask',
+        ruleKind: 'structured',
+        approvals: [argv]
+      };
+    }
+  }
+
+  for (const askRule of policy.ask) {
+    if (askRule.test(full)) {
+      return {
+        allowed: false,
+        reason: `Command matches ask rule and needs approval`,
+        matchedRule: askRule.source,
+        ruleType: 'ask',
+        ruleKind: 'regex',
+        approvals: [argv]
       };
     }
   }
 
   // Check allow rules
+  for (const rule of policy.rules) {
+    if (rule.action === 'allow' && matchStructuredRule(rule, argv)) {
+      return {
+        allowed: true,
+        reason: `Command matches structured allow rule`,
+        matchedRule: rule.name,
+        ruleType: 'allow',
+        ruleKind: 'structured'
+      };
+    }
+  }
+
   for (const allowRule of policy.allow) {
     if (allowRule.test(full)) {
       return {
         allowed: true,
         reason: `Command matches allow rule`,
         matchedRule: allowRule.source,
-        ruleType: 'allow'
+        ruleType: 'allow',
+        ruleKind: 'regex'
       };
     }
   }
@@ -78,6 +192,82 @@ export function checkCommandPolicy(full: string, policy: Policy): PolicyCheckRes
   };
 }
 
+/**
+ * Check every simple command in a shell script (the string passed to bash -c / sh -c)
+ * against policy: pipelines, lists, subshells and command substitutions included.
+ * Nested bash/sh -c wrappers are unwrapped and checked the same way.
+ * @param script The shell script to check
+ * @param policy The policy to check against
+ * @returns The first denial (with the offending segment), else the first ask result, or an allow result
+ */
+export function checkScriptPolicy(script: string, policy: Policy, depth = 0): PolicyCheckResult {
+  if (depth > MAX_WRAPPER_DEPTH) {
+    return { allowed: false, reason: `Shell wrappers nested more than ${MAX_WRAPPER_DEPTH} levels deep` };
+  }
+
+  let commands: ReturnType<typeof parseShellScript>;
+  try {
+    commands = parseShellScript(script);
+  } catch (e: any) {
+    return { allowed: false, reason: `Unable to parse command string: ${e.message}` };
+  }
+
+  if (commands.length === 0) {
+    return { allowed: false, reason: `Command string contains no commands` };
+  }
+
+  // A denial anywhere in the script wins over commands that only need approval
+  let firstAllowed: PolicyCheckResult | undefined;
+  let firstAsk: PolicyCheckResult | undefined;
+  for (const command of commands) {
+    const segment = command.argv.join(" ");
+    const result = checkCommandPolicy(segment, policy, command.argv);
+    if (result.ruleType === 'ask') {
+      firstAsk = mergeAsk(firstAsk, { ...result, segment });
+    } else if (!result.allowed) {
+      return { ...result, segment };
+    }
+
+    // A nested wrapper is only as safe as the script it runs
+    const [cmd, ...args] = command.argv;
+    let wrapper: ReturnType<typeof parseShellWrapper>;
+    try {
+      wrapper = parseShellWrapper(cmd!, args);
+    } catch (e: any) {
+      return { allowed: false, reason: `Unable to parse nested shell wrapper: ${e.message}`, segment };
+    }
+    if (wrapper.isWrapper) {
+      const nested = checkScriptPolicy(wrapper.commandString!, policy, depth + 1);
+      if (nested.ruleType === 'ask') {
+        firstAsk = mergeAsk(firstAsk, nested);
+      } else if (!nested.allowed) {
+        return nested;
+      }
+    }
+
+    if (result.allowed) {
+      firstAllowed ??= { ...result, segment };
+    }
+  }
+
+  if (firstAsk) {
+    return firstAsk;
+  }
+
+  if (commands.length === 1) {
+    return firstAllowed!;
+  }
+  return { ...firstAllowed!, reason: `All ${commands.length} commands match allow rules` };
+}
+
+/**
+ * Combine ask results from one script: keep the first for diagnostics, collect every approval
+ */
+function mergeAsk(first: PolicyCheckResult | undefined, next: PolicyCheckResult): PolicyCheckResult {
+  if (!first) return next;
+  return { ...first, approvals: [...(first.approvals ?? []), ...(next.approvals ?? [])] };
+}
+
 /**
  * Legacy function for backward compatibility
  * @deprecated Use checkCommandPolicy for better diagnostics
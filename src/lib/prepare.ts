@@ -0,0 +1,196 @@
+import { resolve } from "node:path";
+import type { Policy, PolicyCheckResult } from "./policy.js";
+import { ensureCwd, checkCommandPolicy, checkScriptPolicy, sessionApprovalKey } from "./policy.js";
+import type { Approver } from "./approval.js";
+import { buildCmdLine, parseShellWrapper, parseShellCommand, stripEnvPrefix, parseEnvVars } from "./command.js";
+
+/** ---------- Command Preparation ---------- */
+
+export type PreparedCommand = {
+  cwd: string;                  // resolved and validated working directory
+  cmdline: string[];            // original cmd + args as sent by the client
+  execCmd: string;              // executable to spawn
+  execArgs: string[];           // arguments to spawn with
+  additionalEnv: Record<string, string> | undefined;  // KEY=value prefixes from the command line
+  fullCommandForPolicy: string; // unwrapped command line that was checked against policy
+  policyCheck: PolicyCheckResult;
+};
+
+export type PrepareResult =
+  | { ok: true; command: PreparedCommand }
+  | { ok: false; message: string; cwd?: string; policyCheck?: PolicyCheckResult };
+
+/**
+ * Validate cwd, strip env prefixes, unwrap bash/sh -c wrappers, check policy and
+ * build the argv to spawn. Shared by every tool that starts a process.
+ * Commands matching ask rules run only if the approver (MCP elicitation) approves them.
+ * Throws if cwd is outside the sandbox; returns { ok: false } with a client-facing
+ * message for parse errors and policy denials.
+ */
+export async function prepareCommand(input: any, policy: Policy, approver?: Approver): Promise<PrepareResult> {
+  // Resolve cwd: relative paths are resolved against sandbox root,
+  // absolute paths are used directly but must pass ensureCwd validation
+  // (which checks sandbox boundaries and valid worktrees)
+  const resolvedCwd = resolve(policy.rootDirectory, input.cwd || ".");
+  ensureCwd(resolvedCwd, policy);
+
+  // Strip environment variable prefixes before parsing
+  // e.g., FOO=bar npm run test -> { envVars: ["FOO=bar"], cmd: "npm", args: ["run", "test"] }
+  let envVars: string[] = [];
+  let cmdWithoutEnv: string;
+  let argsWithoutEnv: string[];
+  try {
+    const stripped = stripEnvPrefix(input.cmd, input.args || []);
+    envVars = stripped.envVars;
+    cmdWithoutEnv = stripped.cmd;
+    argsWithoutEnv = stripped.args;
+  } catch (error: any) {
+    return { ok: false, message: `Error: ${error.message}`, cwd: resolvedCwd };
+  }
+
+  // Parse shell wrapper to extract underlying command for allowlist checking
+  // Use the command WITHOUT env vars for parsing and validation
+  let wrapperInfo: ReturnType<typeof parseShellWrapper>;
+  try {
+    wrapperInfo = parseShellWrapper(cmdWithoutEnv, argsWithoutEnv);
+  } catch (error: any) {
+    return { ok: false, message: `Error: ${error.message}`, cwd: resolvedCwd };
+  }
+
+  // Check allowlist against the full underlying command (not just the executable)
+  // For wrappers, reconstruct the full command from the parsed tokens
+  // For non-wrappers, use the cmd and args WITHOUT env vars
+  let fullCommandForPolicy: string;
+  if (wrapperInfo.isWrapper) {
+    // Use the tokenized command string to rebuild the full command for policy checking
+    const tokens = parseShellCommand(wrapperInfo.commandString!);
+    fullCommandForPolicy = tokens.join(" ");
+  } else {
+    // Direct command - use cmd and args WITHOUT env var prefix
+    fullCommandForPolicy = buildCmdLine(cmdWithoutEnv, argsWithoutEnv);
+  }
+
+  // Check policy with detailed diagnostics
+  // For wrappers, every command in the script (pipelines, lists, substitutions) is checked
+  let policyCheck = wrapperInfo.isWrapper
+    ? checkScriptPolicy(wrapperInfo.commandString!, policy)
+    : checkCommandPolicy(fullCommandForPolicy, policy, [cmdWithoutEnv, ...argsWithoutEnv]);
+
+  // Ask verdicts need the user's approval before anything runs
+  if (policyCheck.ruleType === 'ask') {
+    const approvals = policyCheck.approvals ?? [];
+    const decision = approver
+      ? await approver({
+          command: fullCommandForPolicy,
+          cwd: resolvedCwd,
+          segments: approvals.map(argv => argv.join(" ")),
+          matchedRule: policyCheck.matchedRule,
+        })
+      : { approved: false as const, reason: "no approval channel is available" };
+
+    if (decision.approved) {
+      if (decision.remember) {
+        for (const argv of approvals) {
+          policy.sessionApprovals.add(sessionApprovalKey(argv));
+        }
+      }
+      policyCheck = { ...policyCheck, allowed: true, reason: `${policyCheck.reason}; approved by the user` };
+    } else {
+      policyCheck = { ...policyCheck, reason: `${policyCheck.reason}; ${decision.reason}` };
+    }
+  }
+
+  if (!policyCheck.allowed) {
+    let errorMessage = `Denied by policy: ${policyCheck.segment ?? fullCommandForPolicy}
+
+`;
+    errorMessage += `Reason: ${policyCheck.reason}`;
+
+    if (policyCheck.matchedRule) {
+      errorMessage += policyCheck.ruleKind === 'structured'
+        ? `
+Matched structured ${policyCheck.ruleType} rule: ${policyCheck.matchedRule}`
+        : `
+Matched ${policyCheck.ruleType} rule: /${policyCheck.matchedRule}/`;
+    }
+
+    // For wrapped commands, show both the original input and unwrapped command
+    if (wrapperInfo.isWrapper) {
+      const originalCmd = buildCmdLine(input.cmd, input.args || []);
+      if (originalCmd !== fullCommandForPolicy) {
+        errorMessage += `
+
+Original command: ${originalCmd}`;
+        errorMessage += `
+Unwrapped command: ${fullCommandForPolicy}`;
+      }
+    }
+
+    return { ok: false, message: errorMessage, cwd: resolvedCwd, policyCheck };
+  }
+
+  // Determine the actual command and args to execute
+  let execCmd: string;
+  let execArgs: string[];
+
+  if (wrapperInfo.isWrapper) {
+    // Execute via the appropriate shell (bash or sh)
+    execCmd = wrapperInfo.shell === 'sh' ? "/bin/sh" : "/bin/bash";
+
+    // Start with user-supplied flags (like --noprofile, --norc, etc.)
+    execArgs = [...(wrapperInfo.flagsBeforeCommand || [])];
+
+    // Add login flag if needed
+    if (wrapperInfo.shouldUseLogin) {
+      execArgs.push("-l");
+    }
+
+    // Prepend env vars to the command string if any
+    // e.g., "FOO=bar npm run test" becomes "FOO=bar npm run test" in the shell
+    let commandString = wrapperInfo.commandString!;
+    if (envVars.length > 0) {
+      commandString = envVars.join(" ") + " " + commandString;
+    }
+
+    // Add our execution flags and command
+    // Note: pipefail is bash-specific and not POSIX-compliant, so only add it for bash
+    if (wrapperInfo.shell === 'bash') {
+      execArgs.push("-o", "pipefail", "-o", "errexit", "-c", commandString);
+    } else {
+      // For sh, use the portable short form -e instead of -o errexit (POSIX-compliant)
+      execArgs.push("-e", "-c", commandString);
+    }
+
+    // Append any trailing arguments after the command string (for $0, $1, etc.)
+    // e.g., bash -c 'echo "$1"' -- foo  -> trailing args are ["--", "foo"]
+    // Need to calculate the correct offset in the original args array
+    // argsAfterCommand is relative to argsWithoutEnv, so add the envVars length
+    const originalArgsAfterCommand = wrapperInfo.argsAfterCommand !== undefined
+      ? wrapperInfo.argsAfterCommand + envVars.length
+      : undefined;
+    if (originalArgsAfterCommand !== undefined && originalArgsAfterCommand < input.args.length) {
+      const trailingArgs = input.args.slice(originalArgsAfterCommand);
+      execArgs.push(...trailingArgs);
+    }
+  } else {
+    // Direct execution (no wrapper)
+    execCmd = cmdWithoutEnv;
+    execArgs = argsWithoutEnv;
+  }
+
+  // Parse env vars from KEY=value format to pass to spawn
+  const additionalEnv = envVars.length > 0 ? parseEnvVars(envVars) : undefined;
+
+  return {
+    ok: true,
+    command: {
+      cwd: resolvedCwd,
+      cmdline: [input.cmd, ...(input.args || [])],
+      execCmd,
+      execArgs,
+      additionalEnv,
+      fullCommandForPolicy,
+      policyCheck
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import type { ChildProcess } from "node:child_process";
+import { debugLog } from "./debug.js";
+
+/** ---------- Process Groups ---------- */
+
+// Commands are spawned with `detached: true`, which makes each child the leader of a
+// new process group whose id equals its pid. Signalling -pid reaches every process the
+// command started (shells, test runners, dev servers), not just the direct child.
+
+/**
+ * Send a signal to the child's whole process group, falling back to the child alone
+ * if the group cannot be signalled. Returns false if nothing was signalled.
+ */
+export function signalProcessGroup(child: ChildProcess, signal: NodeJS.Signals): boolean {
+  if (child.pid === undefined) return false;
+  try {
+    process.kill(-child.pid, signal);
+    return true;
+  } catch (error: any) {
+    if (error.code === "ESRCH") return false;
+    debugLog("Failed to signal process group, signalling child only", { pid: child.pid, signal, error: error.message });
+    return child.kill(signal);
+  }
+}
+
+function processGroupAlive(pgid: number): boolean {
+  try {
+    process.kill(-pgid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === "EPERM";
+  }
+}
+
+/**
+ * Terminate a child's process group: SIGTERM now, then SIGKILL after graceMs if any
+ * process in the group is still running. Resolves with the last signal sent.
+ */
+export function terminateProcessGroup(child: ChildProcess, graceMs: number): Promise<NodeJS.Signals> {
+  const pgid = child.pid;
+  if (graceMs <= 0) {
+    signalProcessGroup(child, "SIGKILL");
+    return Promise.resolve("SIGKILL");
+  }
+
+  signalProcessGroup(child, "SIGTERM");
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      if (pgid !== undefined && processGroupAlive(pgid)) {
+        debugLog("Process group survived SIGTERM grace period, sending SIGKILL", { pgid, graceMs });
+        signalProcessGroup(child, "SIGKILL");
+        resolve("SIGKILL");
+      } else {
+        resolve("SIGTERM");
+      }
+    }, graceMs);
+  });
+}
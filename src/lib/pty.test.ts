@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { ptyCommand, scriptFlavor } from './pty.js';
+
+describe('ptyCommand', () => {
+  const size = { rows: 30, cols: 100 };
+  const command = "stty rows 30 cols 100 2>/dev/null; exec 'ls' '-l'";
+
+  it('should use the long options of util-linux script', () => {
+    expect(ptyCommand('ls', ['-l'], size, 'util-linux')).toEqual({
+      cmd: 'script',
+      args: ['--quiet', '--return', '--flush', '--command', command, '/dev/null']
+    });
+  });
+
+  it('should pass the command as arguments to BSD script', () => {
+    expect(ptyCommand('ls', ['-l'], size, 'bsd')).toEqual({
+      cmd: 'script',
+      args: ['-q', '/dev/null', '/bin/sh', '-c', command]
+    });
+  });
+});
+
+describe('scriptFlavor', () => {
+  it('should know the script of each platform', () => {
+    expect(scriptFlavor('darwin')).toBe('bsd');
+    expect(scriptFlavor('freebsd')).toBe('bsd');
+    expect(scriptFlavor('win32')).toBeNull();
+    expect(scriptFlavor('openbsd')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { execFileSync } from "node:child_process";
+import { quoteShellArg } from "./command.js";
+
+/** ---------- Pseudo-Terminal Commands ---------- */
+
+// Commands run with tty: true get a pseudo-terminal from script(1), so no native addon
+// is needed. stdout and stderr arrive merged on the terminal. util-linux (Linux) and the
+// BSD script of macOS and FreeBSD take different arguments; other versions cannot pass
+// the command's exit status through, so tty is refused where neither is available.
+
+export const DEFAULT_TTY_ROWS = 24;
+export const DEFAULT_TTY_COLS = 80;
+const MAX_TTY_SIZE = 1000;
+
+export type PtyOptions = {
+  rows: number;
+  cols: number;
+};
+
+export type ScriptFlavor = "util-linux" | "bsd";
+
+let detectedFlavor: ScriptFlavor | null | undefined;
+
+/**
+ * Which script(1) this system has, or null if it has none that can run a command.
+ * The answer is cached for the process lifetime.
+ */
+export function scriptFlavor(platform: NodeJS.Platform = process.platform): ScriptFlavor | null {
+  if (platform !== process.platform) return flavorOf(platform);
+  if (detectedFlavor === undefined) detectedFlavor = flavorOf(platform);
+  return detectedFlavor;
+}
+
+function flavorOf(platform: NodeJS.Platform): ScriptFlavor | null {
+  if (platform === "darwin" || platform === "freebsd") return "bsd";
+  if (platform !== "linux") return null;
+  try {
+    const version = execFileSync("script", ["--version"], { encoding: "utf8", timeout: 2000, stdio: ["ignore", "pipe", "ignore"] });
+    return version.includes("util-linux") ? "util-linux" : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read tty, tty_rows and tty_cols from tool input. Returns undefined unless tty is true.
+ * Throws with a client-facing message for invalid sizes.
+ */
+export function parsePtyOptions(input: any): PtyOptions | undefined {
+  if (input?.tty === undefined || input.tty === false) return undefined;
+  if (input.tty !== true) {
+    throw new Error("tty must be a boolean");
+  }
+  if (scriptFlavor() === null) {
+    throw new Error("tty: true needs script(1) from util-linux (Linux) or the BSD script of macOS or FreeBSD, and none was found on this system");
+  }
+
+  const size = (value: unknown, name: string, fallback: number) => {
+    if (value === undefined) return fallback;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_TTY_SIZE) {
+      throw new Error(`${name} must be an integer between 1 and ${MAX_TTY_SIZE}`);
+    }
+    return value;
+  };
+  return {
+    rows: size(input.tty_rows, "tty_rows", DEFAULT_TTY_ROWS),
+    cols: size(input.tty_cols, "tty_cols", DEFAULT_TTY_COLS),
+  };
+}
+
+/**
+ * Wrap a command so that it runs on a pseudo-terminal of the given size. util-linux
+ * script needs --return to pass the command's exit status through; BSD script always does.
+ */
+export function ptyCommand(
+  cmd: string,
+  args: string[],
+  pty: PtyOptions,
+  flavor: ScriptFlavor | null = scriptFlavor()
+): { cmd: string; args: string[] } {
+  const command = `stty rows ${pty.rows} cols ${pty.cols} 2>/dev/null; exec ${[cmd, ...args].map(quoteShellArg).join(" ")}`;
+  if (flavor === "bsd") {
+    return { cmd: "script", args: ["-q", "/dev/null", "/bin/sh", "-c", command] };
+  }
+  return {
+    cmd: "script",
+    args: ["--quiet", "--return", "--flush", "--command", command, "/dev/null"],
+  };
+}
+
+/**
+ * Environment for a pseudo-terminal command: script(1) runs the wrapped command
+ * with $SHELL -c, and programs need TERM to decide how to draw.
+ */
+export function ptyEnv(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  return { ...env, SHELL: "/bin/sh", TERM: env.TERM ?? "xterm-256color" };
+}
@@ -0,0 +1,152 @@
+import { basename } from "node:path";
+
+/** ---------- Structured (argv-based) Policy Rules ---------- */
+
+/** A [[commands.rules]] entry as written in TOML */
+export type StructuredRuleConfig = {
+  name?: string | undefined;
+  action: "allow" | "deny" | "ask";
+  executable: string | string[];          // globs matched against argv[0] and its basename
+  subcommand?: string[] | undefined;      // globs for the leading positional args, e.g. ["run"]
+  required_flags?: string[] | undefined;  // all must be present; "--force|-f" lists alternatives
+  forbidden_flags?: string[] | undefined; // none may be present
+  args?: string[] | undefined;            // globs every remaining positional arg must match
+  max_args?: number | undefined;          // maximum number of arguments after the executable
+};
+
+/** A compiled structured rule, evaluated against tokenized argv */
+export type StructuredRule = {
+  name: string;
+  action: "allow" | "deny" | "ask";
+  executable: RegExp[];
+  subcommand: RegExp[];
+  requiredFlags: string[][];
+  forbiddenFlags: string[];
+  args: RegExp[] | undefined;
+  maxArgs: number | undefined;
+};
+
+/**
+ * Convert a shell-style glob (`*`, `?`, `[...]`) into an anchored RegExp
+ */
+export function globToRegex(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === "*") {
+      source += ".*";
+    } else if (c === "?") {
+      source += ".";
+    } else if (c === "[") {
+      const close = glob.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = close;
+      }
+    } else {
+      source += c.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function compileStructuredRule(config: StructuredRuleConfig): StructuredRule {
+  const executables = Array.isArray(config.executable) ? config.executable : [config.executable];
+  const subcommand = config.subcommand ?? [];
+  const name = config.name ?? [config.action, executables.join("|"), ...subcommand].join(" ");
+  return {
+    name,
+    action: config.action,
+    executable: executables.map(globToRegex),
+    subcommand: subcommand.map(globToRegex),
+    requiredFlags: (config.required_flags ?? []).map(f => f.split("|")),
+    forbiddenFlags: (config.forbidden_flags ?? []).flatMap(f => f.split("|")),
+    args: config.args?.map(globToRegex),
+    maxArgs: config.max_args,
+  };
+}
+
+/**
+ * Whether a flag (e.g. "--force", "-f") appears among the given argv flags.
+ * Long flags also match their "--flag=value" form; single-letter short flags
+ * also match inside bundles such as "-rf". With `abbreviations`, a long flag also
+ * matches any prefix of it ("--forc"), since git and getopt_long accept
+ * unambiguous abbreviations.
+ */
+function hasFlag(flags: string[], flag: string, abbreviations = false): boolean {
+  if (flag.startsWith("--")) {
+    return flags.some(f => {
+      const name = f.split("=", 1)[0]!;
+      return name === flag || (abbreviations && name.startsWith("--") && name.length > 2 && flag.startsWith(name));
+    });
+  }
+  if (/^-[A-Za-z0-9]$/.test(flag)) {
+    const letter = flag[1]!;
+    return flags.some(f => f === flag || (!f.startsWith("--") && f.slice(1).includes(letter)));
+  }
+  return flags.some(f => f === flag || f.startsWith(flag + "="));
+}
+
+/**
+ * Evaluate a structured rule against argv. Every matcher the rule specifies must hold.
+ *
+ * Subcommand paths of allow rules must start at the first positional argument; deny
+ * and ask rules match the path anywhere among the positionals, so global options with
+ * values (`git -C dir push`) cannot be used to slip past them.
+ */
+export function matchStructuredRule(rule: StructuredRule, argv: string[]): boolean {
+  const [exe, ...rest] = argv;
+  if (!exe) return false;
+  const exeBase = basename(exe);
+  if (!rule.executable.some(r => r.test(exe) || r.test(exeBase))) return false;
+
+  if (rule.maxArgs !== undefined && rest.length > rule.maxArgs) return false;
+
+  // Split into flags and positionals; everything after "--" is positional
+  const flags: string[] = [];
+  const positionals: string[] = [];
+  let endOfFlags = false;
+  for (const arg of rest) {
+    if (!endOfFlags && arg === "--") {
+      endOfFlags = true;
+    } else if (!endOfFlags && arg.startsWith("-") && arg !== "-") {
+      flags.push(arg);
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  const n = rule.subcommand.length;
+  const matchesAt = (start: number) => rule.subcommand.every((r, i) => {
+    const arg = positionals[start + i];
+    return arg !== undefined && r.test(arg);
+  });
+  let subcommandEnd: number | undefined;
+  if (rule.action !== "allow") {
+    for (let start = 0; start + n <= positionals.length; start++) {
+      if (matchesAt(start)) {
+        subcommandEnd = start + n;
+        break;
+      }
+    }
+  } else if (matchesAt(0)) {
+    subcommandEnd = n;
+  }
+  if (subcommandEnd === undefined) return false;
+
+  // Abbreviated long flags count wherever their presence makes the verdict stricter:
+  // required flags of deny and ask rules, forbidden flags of allow rules
+  const restrictive = rule.action !== "allow";
+  if (!rule.requiredFlags.every(alternatives => alternatives.some(f => hasFlag(flags, f, restrictive)))) return false;
+  if (rule.forbiddenFlags.some(f => hasFlag(flags, f, !restrictive))) return false;
+
+  if (rule.args) {
+    const remaining = positionals.slice(subcommandEnd);
+    if (!remaining.every(arg => rule.args!.some(r => r.test(arg)))) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,327 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import type { Policy } from "./policy.js";
+import { ensureCwd, filteredEnv } from "./policy.js";
+import { quoteShellArg } from "./command.js";
+import { signalProcessGroup, terminateProcessGroup } from "./process-group.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Persistent Shell Sessions ---------- */
+
+// Sessions idle for longer than this are closed the next time sessions are listed or opened
+export const SESSION_IDLE_MS = 30 * 60_000;
+export const MAX_SESSIONS = 8;
+
+export type SessionState = "idle" | "busy" | "closed";
+
+export type Session = {
+  id: string;
+  pid: number | undefined;
+  cwd: string;                  // working directory after the last command
+  state: SessionState;
+  openedAt: number;
+  lastUsedAt: number;
+  commandCount: number;
+  closeReason: string | undefined;
+};
+
+export type SessionCommandResult = {
+  exitCode: number | null;      // null if the shell died or was killed
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  stdoutBytes: number;
+  stderrBytes: number;
+  truncated: boolean;
+  durationMs: number;
+  cwd: string;
+};
+
+type SessionInternals = {
+  child: ChildProcessWithoutNullStreams;
+  exited: Promise<{ code: number | null; signal: NodeJS.Signals | null }>;
+};
+
+const sessions = new Map<string, Session>();
+const internals = new Map<string, SessionInternals>();
+
+/**
+ * Start a long-lived bash process for a session. Startup files are skipped so the
+ * environment is the filtered policy environment, as for shell_exec.
+ * Callers must validate cwd first.
+ */
+export function openSession(cwd: string, policy: Policy): Session {
+  sweepSessions();
+  if (sessions.size >= MAX_SESSIONS) {
+    throw new Error(`Too many open sessions (${sessions.size}/${MAX_SESSIONS}); close an existing session first`);
+  }
+
+  // detached: the shell leads its own process group, so a timeout can stop everything it started
+  const child = spawn("/bin/bash", ["--noprofile", "--norc"], {
+    cwd,
+    env: filteredEnv(policy),
+    stdio: ["pipe", "pipe", "pipe"],
+    detached: true
+  });
+  const now = Date.now();
+  const session: Session = {
+    id: `session-${randomUUID()}`,
+    pid: child.pid,
+    cwd,
+    state: "idle",
+    openedAt: now,
+    lastUsedAt: now,
+    commandCount: 0,
+    closeReason: undefined,
+  };
+
+  const exited = new Promise<{ code: number | null; signal: NodeJS.Signals | null }>((resolve) => {
+    child.on("exit", (code, signal) => resolve({ code, signal }));
+    child.on("error", (error) => {
+      debugLog("Session shell error", { sessionId: session.id, error: error.message });
+      resolve({ code: null, signal: null });
+    });
+  });
+  void exited.then(({ code, signal }) => {
+    markClosed(session, session.closeReason ?? `shell exited (code ${code}, signal ${signal})`);
+  });
+  // Writes after the shell has gone fail with EPIPE; the exit handler reports it
+  child.stdin.on("error", (error) => {
+    debugLog("Session stdin error", { sessionId: session.id, error: error.message });
+  });
+
+  sessions.set(session.id, session);
+  internals.set(session.id, { child, exited });
+  debugLog("Session opened", { sessionId: session.id, pid: session.pid, cwd });
+  return session;
+}
+
+function markClosed(session: Session, reason: string): void {
+  if (session.state === "closed") return;
+  session.state = "closed";
+  session.closeReason = reason;
+  sessions.delete(session.id);
+  internals.delete(session.id);
+  debugLog("Session closed", { sessionId: session.id, reason });
+}
+
+/**
+ * Look up an open session, throwing a descriptive error for unknown or closed ids
+ */
+export function getSession(sessionId: string): Session {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Unknown session_id: ${sessionId}. Sessions are closed after ${SESSION_IDLE_MS / 60_000} minutes of inactivity.`);
+  }
+  return session;
+}
+
+export function listSessions(): Session[] {
+  sweepSessions();
+  return [...sessions.values()];
+}
+
+/**
+ * Collects one stream of a session command up to the sentinel marker. Output is
+ * capped at maxBytes; bytes that might be the start of the marker are held back.
+ */
+function createMarkerReader(marker: string, maxBytes: number) {
+  const markerBytes = Buffer.from(marker);
+  let output = Buffer.alloc(0);
+  let pending = Buffer.alloc(0);
+  let total = 0;
+
+  const keep = (chunk: Buffer) => {
+    total += chunk.length;
+    if (output.length < maxBytes) {
+      output = Buffer.concat([output, chunk.subarray(0, maxBytes - output.length)]);
+    }
+  };
+
+  return {
+    /** Feed a chunk; returns the rest of the marker line once it has been read */
+    push(chunk: Buffer): string | undefined {
+      pending = Buffer.concat([pending, chunk]);
+      const index = pending.indexOf(markerBytes);
+      if (index === -1) {
+        const safe = Math.max(0, pending.length - (markerBytes.length - 1));
+        keep(pending.subarray(0, safe));
+        pending = pending.subarray(safe);
+        return undefined;
+      }
+      const newline = pending.indexOf(10, index);
+      if (newline === -1) return undefined;
+      keep(pending.subarray(0, index));
+      const trailer = pending.subarray(index + markerBytes.length, newline).toString("utf8");
+      pending = Buffer.alloc(0);
+      return trailer;
+    },
+    /** Output so far, including held-back bytes if the marker never arrived */
+    result() {
+      keep(pending);
+      pending = Buffer.alloc(0);
+      return { text: output.toString("utf8"), bytes: total, truncated: total > output.length };
+    }
+  };
+}
+
+/**
+ * Run a shell command in a session and wait for it to finish. The command is
+ * evaluated by the session's shell, so cd, export and source persist. Callers must
+ * run policy checks first. A command that times out ends the session; so does a
+ * command that leaves the sandbox, once its cwd has been re-validated.
+ */
+export async function runInSession(
+  sessionId: string,
+  command: string,
+  policy: Policy,
+  timeoutMs: number,
+  maxBytes: number
+): Promise<SessionCommandResult> {
+  const session = getSession(sessionId);
+  const internal = internals.get(sessionId);
+  if (!internal) {
+    throw new Error(`Unknown session_id: ${sessionId}`);
+  }
+  if (session.state === "busy") {
+    throw new Error(`Session ${sessionId} is still running a command`);
+  }
+  session.state = "busy";
+  session.commandCount++;
+  const { child, exited } = internal;
+
+  // A fresh marker per command, so command output cannot end the command early
+  const marker = `__SHEMCP_${randomUUID().replace(/-/g, "")}__`;
+  const stdoutReader = createMarkerReader(marker, maxBytes);
+  const stderrReader = createMarkerReader(marker, maxBytes);
+
+  // eval keeps a syntax error inside the command from swallowing the marker lines;
+  // stdin comes from /dev/null because the shell's own stdin carries the commands
+  const script = `{ eval ${quoteShellArg(command)}\n} </dev/null; printf '%s %d %s\\n' '${marker}' "$?" "$PWD"; printf '%s\\n' '${marker}' >&2\n`;
+
+  const started = Date.now();
+  let onStdout: ((c: Buffer) => void) | undefined;
+  let onStderr: ((c: Buffer) => void) | undefined;
+  const finished = new Promise<{ status: number; cwd: string }>((resolve) => {
+    let stdoutTrailer: string | undefined;
+    let stderrDone = false;
+    const check = () => {
+      if (stdoutTrailer === undefined || !stderrDone) return;
+      const match = /^ (-?\d+) (.*)$/.exec(stdoutTrailer);
+      resolve({ status: Number(match?.[1] ?? -1), cwd: match?.[2] ?? session.cwd });
+    };
+    onStdout = (c) => {
+      if (stdoutTrailer !== undefined) return;
+      stdoutTrailer = stdoutReader.push(c);
+      check();
+    };
+    onStderr = (c) => {
+      if (stderrDone) return;
+      stderrDone = stderrReader.push(c) !== undefined;
+      check();
+    };
+    child.stdout.on("data", onStdout);
+    child.stderr.on("data", onStderr);
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), timeoutMs);
+  });
+
+  child.stdin.write(script);
+  const outcome = await Promise.race([finished, exited, timedOut]);
+  clearTimeout(timer);
+  child.stdout.off("data", onStdout!);
+  child.stderr.off("data", onStderr!);
+
+  const stdout = stdoutReader.result();
+  const stderr = stderrReader.result();
+  const result: SessionCommandResult = {
+    exitCode: null,
+    signal: null,
+    timedOut: false,
+    stdout: stdout.text,
+    stderr: stderr.text,
+    stdoutBytes: stdout.bytes,
+    stderrBytes: stderr.bytes,
+    truncated: stdout.truncated || stderr.truncated,
+    durationMs: Date.now() - started,
+    cwd: session.cwd,
+  };
+  session.lastUsedAt = Date.now();
+
+  if (outcome === "timeout") {
+    debugLog("Session command timed out, closing session", { sessionId, timeoutMs });
+    result.timedOut = true;
+    session.closeReason = `command timed out after ${timeoutMs}ms`;
+    result.signal = await terminateProcessGroup(child, policy.killGraceMs);
+    await exited;
+    return result;
+  }
+  if ("code" in outcome) {
+    // The command ended the shell itself (exit, exec, or a fatal signal)
+    result.exitCode = outcome.code;
+    result.signal = outcome.signal;
+    return result;
+  }
+
+  result.exitCode = outcome.status;
+  try {
+    ensureCwd(outcome.cwd, policy);
+  } catch (error: any) {
+    await closeSession(sessionId, `cwd ${outcome.cwd} left the sandbox`, policy.killGraceMs);
+    throw new Error(`Session cwd is no longer allowed: ${error.message}. The session was closed.`);
+  }
+  session.cwd = outcome.cwd;
+  result.cwd = outcome.cwd;
+  session.state = "idle";
+  return result;
+}
+
+/**
+ * End a session's shell and everything it started: SIGTERM to the process group, then
+ * SIGKILL if the shell is still running after graceMs. Resolves once the shell has exited.
+ */
+export async function closeSession(sessionId: string, reason: string, graceMs: number): Promise<void> {
+  const session = getSession(sessionId);
+  const internal = internals.get(sessionId);
+  session.closeReason = reason;
+  if (!internal) {
+    markClosed(session, reason);
+    return;
+  }
+
+  signalProcessGroup(internal.child, graceMs > 0 ? "SIGTERM" : "SIGKILL");
+  let timer: NodeJS.Timeout | undefined;
+  const exitedInTime = await Promise.race([
+    internal.exited.then(() => true),
+    new Promise<boolean>((resolve) => { timer = setTimeout(() => resolve(false), graceMs); })
+  ]);
+  clearTimeout(timer);
+  if (!exitedInTime) {
+    debugLog("Session shell survived SIGTERM grace period, sending SIGKILL", { sessionId, graceMs });
+    signalProcessGroup(internal.child, "SIGKILL");
+    await internal.exited;
+  }
+}
+
+/**
+ * Close sessions that have been idle for longer than SESSION_IDLE_MS
+ */
+export function sweepSessions(now: number = Date.now()): void {
+  for (const session of [...sessions.values()]) {
+    if (session.state === "idle" && now - session.lastUsedAt > SESSION_IDLE_MS) {
+      void closeSession(session.id, "idle timeout", 0);
+    }
+  }
+}
+
+/**
+ * Close every open session. Called on server shutdown.
+ */
+export async function reapSessions(graceMs: number): Promise<void> {
+  debugLog("Reaping sessions", { open: sessions.size });
+  await Promise.all([...sessions.keys()].map(id => closeSession(id, "server shutdown", graceMs)));
+}
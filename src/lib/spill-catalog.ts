@@ -0,0 +1,147 @@
+import { existsSync, readFileSync, readdirSync, writeFileSync, unlinkSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { homedir } from "node:os";
+import type { SpillCompression } from "./spill-frames.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Spill Catalog ---------- */
+
+// A spill is up to four files in the spill directory that share an id (exec-<uuid>):
+//   <id>.out     stdout, or stdout and stderr in arrival order with merge_streams
+//   <id>.err     stderr
+//   <id>.json    sidecar with the originating command, its outcome and the pin
+//   <id>.chunks  stream and arrival time of each chunk of merged output
+export const SPILL_FILE_PATTERN = /^(exec-[^.]+)\.(out|err|json|chunks)$/;
+
+export type SpillMeta = {
+  spill_id: string;
+  cmdline: string[];            // original cmd + args as sent by the client
+  effective_cmdline: string[];  // what was actually spawned
+  cwd: string;
+  exit_code: number | null;     // null while a job is running or after a signal
+  signal: string | null;
+  stdout_bytes: number;
+  stderr_bytes: number;
+  created_at: string;           // ISO time the command started (job) or finished (exec)
+  pinned: boolean;              // pinned spills survive cleanup until spill_delete
+  compression?: SpillCompression;  // how <id>.out and <id>.err were written; raw if absent
+  exec_id?: string;
+  job_id?: string;
+};
+
+/**
+ * Directory that holds every spill file (~/.shemcp/tmp)
+ */
+export function spillDirectory(): string {
+  return join(homedir(), ".shemcp", "tmp");
+}
+
+/**
+ * Id shared by a spill's files, from the path of any of them
+ */
+export function spillIdOf(filePath: string): string {
+  const match = SPILL_FILE_PATTERN.exec(basename(filePath));
+  if (!match) {
+    throw new Error(`Not a spill file: ${basename(filePath)}`);
+  }
+  return match[1]!;
+}
+
+/**
+ * Paths of a spill's stdout, stderr, sidecar and chunk index files
+ */
+export function spillPaths(directory: string, spillId: string): { stdout: string; stderr: string; meta: string; chunks: string } {
+  return {
+    stdout: join(directory, `${spillId}.out`),
+    stderr: join(directory, `${spillId}.err`),
+    meta: join(directory, `${spillId}.json`),
+    chunks: join(directory, `${spillId}.chunks`),
+  };
+}
+
+/**
+ * Ids of every spill in a directory, whichever of its files still exist
+ */
+export function listSpillIds(directory: string = spillDirectory()): string[] {
+  let names: string[];
+  try {
+    names = readdirSync(directory);
+  } catch {
+    return [];
+  }
+  const ids = new Set<string>();
+  for (const name of names) {
+    const match = SPILL_FILE_PATTERN.exec(name);
+    if (match) ids.add(match[1]!);
+  }
+  return [...ids];
+}
+
+function metaPathOf(filePath: string): string {
+  return spillPaths(dirname(filePath), spillIdOf(filePath)).meta;
+}
+
+/**
+ * Read the sidecar of the spill a file belongs to. Returns undefined for spills
+ * without one (output that was never stored) or with an unreadable one.
+ */
+export function readSpillMeta(filePath: string): SpillMeta | undefined {
+  const metaPath = metaPathOf(filePath);
+  if (!existsSync(metaPath)) return undefined;
+  try {
+    return JSON.parse(readFileSync(metaPath, "utf8")) as SpillMeta;
+  } catch (e) {
+    debugLog("Failed to read spill metadata", { metaPath, error: e });
+    return undefined;
+  }
+}
+
+/**
+ * Write or update the sidecar of the spill a file belongs to. An existing pin is
+ * kept unless `changes` sets one.
+ */
+export function writeSpillMeta(filePath: string, changes: Partial<Omit<SpillMeta, "spill_id">>): SpillMeta {
+  const existing = readSpillMeta(filePath);
+  const meta: SpillMeta = {
+    cmdline: [],
+    effective_cmdline: [],
+    cwd: "",
+    exit_code: null,
+    signal: null,
+    stdout_bytes: 0,
+    stderr_bytes: 0,
+    created_at: new Date().toISOString(),
+    pinned: false,
+    ...existing,
+    ...changes,
+    spill_id: spillIdOf(filePath),
+  };
+  writeFileSync(metaPathOf(filePath), JSON.stringify(meta, null, 2));
+  return meta;
+}
+
+export function isSpillPinned(filePath: string): boolean {
+  return readSpillMeta(filePath)?.pinned === true;
+}
+
+/**
+ * Compression a spill's output was written with, as recorded in its sidecar. The
+ * sidecar and chunk index, and files outside the spill naming scheme, are raw.
+ */
+export function spillCompressionOf(filePath: string): SpillCompression {
+  const match = SPILL_FILE_PATTERN.exec(basename(filePath));
+  if (!match || (match[2] !== "out" && match[2] !== "err")) return "none";
+  return readSpillMeta(filePath)?.compression ?? "none";
+}
+
+/**
+ * Delete the sidecar of the spill a file belongs to
+ */
+export function deleteSpillMeta(filePath: string): void {
+  const metaPath = metaPathOf(filePath);
+  try {
+    if (existsSync(metaPath)) unlinkSync(metaPath);
+  } catch (e) {
+    debugLog("Failed to delete spill metadata", { metaPath, error: e });
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { finished } from 'node:stream/promises';
+import { FRAME_BYTES, openSpillWriter, isCompressedSpill, spillFileSize, readSpillBytes, readSpillFileSync } from './spill-frames.js';
+import { getLineIndex } from './line-index.js';
+import { readSpillMeta } from './spill-catalog.js';
+
+describe('compressed spill frames', () => {
+  let dir: string;
+  let file: string;
+  // About 3.5 frames of numbered lines
+  const output = Buffer.from(Array.from({ length: 40000 }, (_, i) => `line ${i + 1}\n`).join(''));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-frames-'));
+    file = join(dir, 'exec-test.out');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeCompressed = async (data: Buffer, chunkBytes = 1000) => {
+    const writer = openSpillWriter(file, 'gzip');
+    for (let start = 0; start < data.length; start += chunkBytes) {
+      writer.write(data.subarray(start, start + chunkBytes));
+    }
+    await finished(writer.end());
+  };
+
+  it('should read uncompressed ranges at their original offsets', async () => {
+    await writeCompressed(output);
+
+    expect(isCompressedSpill(file)).toBe(true);
+    expect(statSync(file).size).toBeLessThan(output.length / 2);
+    expect(spillFileSize(file)).toBe(output.length);
+    for (const [start, end] of [[0, 10], [FRAME_BYTES - 5, FRAME_BYTES + 5], [100, 3 * FRAME_BYTES + 7], [output.length - 3, output.length + 50]]) {
+      expect((await readSpillBytes(file, start!, end!)).equals(output.subarray(start!, end!))).toBe(true);
+    }
+  });
+
+  it('should stay a valid gzip stream', async () => {
+    await writeCompressed(output);
+    expect(gunzipSync(readFileSync(file)).equals(output)).toBe(true);
+    expect(readSpillFileSync(file).equals(output)).toBe(true);
+  });
+
+  it('should index lines of the uncompressed output', async () => {
+    await writeCompressed(output);
+    const index = await getLineIndex(file);
+    expect(index.lineCount).toBe(40000);
+    const start = index.lineStart(30000);
+    expect((await readSpillBytes(file, start, start + 11)).toString()).toBe('line 30000\n');
+  });
+
+  it('should not create a file for a stream without output', async () => {
+    await finished(openSpillWriter(file, 'gzip').end());
+    expect(existsSync(file)).toBe(false);
+  });
+
+  it('should record the compression in the sidecar', async () => {
+    await writeCompressed(output);
+    expect(readSpillMeta(file)?.compression).toBe('gzip');
+  });
+
+  it('should read raw spill files as they are', async () => {
+    writeFileSync(file, output);
+    expect(isCompressedSpill(file)).toBe(false);
+    expect(spillFileSize(file)).toBe(output.length);
+    expect((await readSpillBytes(file, 5, 25)).equals(output.subarray(5, 25))).toBe(true);
+  });
+
+  it('should read raw output that looks like frames as it is', async () => {
+    await writeCompressed(output);
+    const framed = readFileSync(file);
+    rmSync(file);
+    rmSync(join(dir, 'exec-test.json'));
+    // e.g. cat of a compressed spill, spilled without compression
+    const writer = openSpillWriter(file, 'none');
+    writer.write(framed);
+    await finished(writer.end());
+
+    expect(isCompressedSpill(file)).toBe(false);
+    expect(spillFileSize(file)).toBe(framed.length);
+    expect(readSpillFileSync(file).equals(framed)).toBe(true);
+  });
+});
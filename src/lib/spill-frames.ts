@@ -0,0 +1,256 @@
+import { closeSync, createReadStream, createWriteStream, openSync, readFileSync, readSync, statSync, type WriteStream } from "node:fs";
+import { open } from "node:fs/promises";
+import { Writable } from "node:stream";
+import { gunzip, gunzipSync, gzip } from "node:zlib";
+import { promisify } from "node:util";
+import { spillCompressionOf, writeSpillMeta } from "./spill-catalog.js";
+
+/** ---------- Compressed Spill Frames ---------- */
+
+// A compressed spill file is a series of gzip members ("frames"), each holding up to
+// FRAME_BYTES of output. The file stays a valid gzip stream (zcat reads it), and every
+// member carries its own compressed length in an 'SZ' extra subfield, so the frame
+// index is rebuilt by hopping from header to header without decompressing anything.
+// The compression is recorded in the spill's sidecar when the writer opens, and files
+// recorded as raw are read as they are, whatever their content looks like. Offsets
+// always refer to the uncompressed output.
+export type SpillCompression = "none" | "gzip";
+
+export const FRAME_BYTES = 64 * 1024;
+
+const HEADER_BYTES = 20;        // gzip header (10) + XLEN (2) + 'SZ' subfield (4 + 4)
+const FLAG_EXTRA = 0x04;
+const MAX_CACHED_INDEXES = 16;
+
+const gunzipAsync = promisify(gunzip);
+
+type FrameIndex = {
+  diskBytes: number;          // file size when the index was built
+  mtimeMs: number;
+  offsets: number[];          // file offset of every frame
+  starts: number[];           // uncompressed offset of every frame
+  sizes: number[];            // compressed size of every frame
+  bytes: number;              // uncompressed size of the complete frames
+};
+
+const indexes = new Map<string, FrameIndex>();
+
+/**
+ * Open a write stream that appends output to a spill file, raw or as gzip frames.
+ * Frames are compressed off the event loop; write() returns false while the file
+ * falls behind, like any other writable stream. The file is created by the first
+ * write, so a command without output leaves none behind.
+ */
+export function openSpillWriter(filePath: string, compression: SpillCompression): Writable {
+  if (compression !== "none") {
+    writeSpillMeta(filePath, { compression });
+  }
+  let file: WriteStream | undefined;
+  const append = (data: Buffer, done: (error?: Error | null) => void) => {
+    if (!file) {
+      file = createWriteStream(filePath, { flags: "a" });
+      file.on("error", (error) => writer.destroy(error));
+    }
+    file.write(data, done);
+  };
+  const appendFrames = (data: Buffer, done: (error?: Error | null) => void) => {
+    if (data.length === 0) return done();
+    gzip(data.subarray(0, FRAME_BYTES), (error, member) => {
+      if (error) return done(error);
+      append(frameOf(member), (error) => {
+        if (error) return done(error);
+        appendFrames(data.subarray(FRAME_BYTES), done);
+      });
+    });
+  };
+
+  // Output that does not fill a frame yet
+  let pending = Buffer.alloc(0);
+  const writer: Writable = new Writable({
+    writev(chunks, done) {
+      const data = Buffer.concat([pending, ...chunks.map(({ chunk }) => chunk as Buffer)]);
+      if (compression === "none") {
+        return append(data, done);
+      }
+      const whole = data.length - (data.length % FRAME_BYTES);
+      pending = data.subarray(whole);
+      appendFrames(data.subarray(0, whole), done);
+    },
+    final(done) {
+      appendFrames(pending, (error) => {
+        if (error || !file) return done(error);
+        file.end(done);
+      });
+    },
+    destroy(error, done) {
+      file?.destroy();
+      done(error);
+    },
+  });
+  return writer;
+}
+
+/**
+ * Turn a gzip member into a frame by adding the 'SZ' subfield to its header
+ */
+function frameOf(member: Buffer): Buffer {
+  const header = Buffer.alloc(HEADER_BYTES);
+  member.copy(header, 0, 0, 10);
+  header[3] = FLAG_EXTRA;
+  header.writeUInt16LE(8, 10);
+  header.write("SZ", 12, "latin1");
+  header.writeUInt16LE(4, 14);
+  header.writeUInt32LE(HEADER_BYTES + member.length - 10, 16);
+  return Buffer.concat([header, member.subarray(10)]);
+}
+
+/**
+ * Compressed size of the frame whose header is in buf, or undefined if buf does not
+ * start with a frame header
+ */
+function frameSize(buf: Buffer): number | undefined {
+  if (buf.length < HEADER_BYTES || buf[0] !== 0x1f || buf[1] !== 0x8b || buf[2] !== 8 || buf[3] !== FLAG_EXTRA) {
+    return undefined;
+  }
+  if (buf.readUInt16LE(10) !== 8 || buf.toString("latin1", 12, 14) !== "SZ" || buf.readUInt16LE(14) !== 4) {
+    return undefined;
+  }
+  return buf.readUInt32LE(16);
+}
+
+/**
+ * Frame index of a compressed spill file, or undefined for a raw one. A file that only
+ * grew is indexed from its last complete frame; a frame still being written is skipped.
+ */
+function getFrameIndex(filePath: string): FrameIndex | undefined {
+  if (spillCompressionOf(filePath) !== "gzip") return undefined;
+  const { size, mtimeMs } = statSync(filePath);
+  let entry = indexes.get(filePath);
+  if (!entry || size < entry.diskBytes || (size === entry.diskBytes && mtimeMs !== entry.mtimeMs)) {
+    entry = { diskBytes: 0, mtimeMs, offsets: [], starts: [], sizes: [], bytes: 0 };
+  }
+
+  if (size > entry.diskBytes) {
+    const fd = openSync(filePath, "r");
+    try {
+      const header = Buffer.alloc(HEADER_BYTES);
+      const trailer = Buffer.alloc(4);
+      let position = entry.offsets.length > 0 ? entry.offsets.at(-1)! + entry.sizes.at(-1)! : 0;
+      while (position + HEADER_BYTES <= size) {
+        readSync(fd, header, 0, HEADER_BYTES, position);
+        const frameBytes = frameSize(header);
+        if (frameBytes === undefined) {
+          throw new Error(`Corrupt compressed spill file ${filePath} at offset ${position}`);
+        }
+        if (position + frameBytes > size) break;
+        // ISIZE, the last 4 bytes of a gzip member, is the frame's uncompressed size
+        readSync(fd, trailer, 0, 4, position + frameBytes - 4);
+        entry.offsets.push(position);
+        entry.starts.push(entry.bytes);
+        entry.sizes.push(frameBytes);
+        entry.bytes += trailer.readUInt32LE(0);
+        position += frameBytes;
+      }
+    } finally {
+      closeSync(fd);
+    }
+    entry.diskBytes = size;
+    entry.mtimeMs = mtimeMs;
+  }
+
+  // Most recently used last
+  indexes.delete(filePath);
+  indexes.set(filePath, entry);
+  while (indexes.size > MAX_CACHED_INDEXES) {
+    indexes.delete(indexes.keys().next().value!);
+  }
+  return entry;
+}
+
+/**
+ * Drop the cached frame index of a file, e.g. when it is deleted
+ */
+export function forgetFrameIndex(filePath: string): void {
+  indexes.delete(filePath);
+}
+
+export function isCompressedSpill(filePath: string): boolean {
+  return getFrameIndex(filePath) !== undefined;
+}
+
+/**
+ * Uncompressed size of a spill file
+ */
+export function spillFileSize(filePath: string): number {
+  return getFrameIndex(filePath)?.bytes ?? statSync(filePath).size;
+}
+
+/**
+ * Index of the frame holding an uncompressed offset
+ */
+function frameAt(index: FrameIndex, offset: number): number {
+  let low = 0;
+  let high = index.starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (index.starts[mid]! <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Stream the uncompressed bytes start to end (default: to the end) of a spill file
+ */
+export async function* streamSpillFile(filePath: string, start: number, end?: number): AsyncGenerator<Buffer> {
+  const index = getFrameIndex(filePath);
+  if (!index) {
+    if (end !== undefined && end <= start) return;
+    yield* createReadStream(filePath, end === undefined ? { start } : { start, end: end - 1 }) as AsyncIterable<Buffer>;
+    return;
+  }
+
+  const stop = Math.min(end ?? index.bytes, index.bytes);
+  if (stop <= start) return;
+  const handle = await open(filePath, "r");
+  try {
+    for (let frame = frameAt(index, start); frame < index.offsets.length && index.starts[frame]! < stop; frame++) {
+      const compressed = Buffer.alloc(index.sizes[frame]!);
+      await handle.read(compressed, 0, compressed.length, index.offsets[frame]!);
+      const data = await gunzipAsync(compressed);
+      const frameStart = index.starts[frame]!;
+      yield data.subarray(Math.max(0, start - frameStart), Math.min(data.length, stop - frameStart));
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the uncompressed bytes start to end of a spill file
+ */
+export async function readSpillBytes(filePath: string, start: number, end: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of streamSpillFile(filePath, start, end)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read the whole uncompressed content of a spill file
+ */
+export function readSpillFileSync(filePath: string): Buffer {
+  const index = getFrameIndex(filePath);
+  if (!index) return readFileSync(filePath);
+  const fd = openSync(filePath, "r");
+  try {
+    const end = index.offsets.at(-1)! + index.sizes.at(-1)!;
+    const compressed = Buffer.alloc(end);
+    readSync(fd, compressed, 0, end, 0);
+    // Node decompresses every member of a multi-member gzip stream
+    return gunzipSync(compressed);
+  } finally {
+    closeSync(fd);
+  }
+}
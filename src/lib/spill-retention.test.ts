@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { type SpillLimits, openSpillQuota, sweepSpillFiles, retainSpillFiles, releaseSpillFiles } from './spill-retention.js';
+
+describe('spill retention', () => {
+  let dir: string;
+  const limits: SpillLimits = { maxAgeMs: 60_000, maxTotalBytes: 1000, maxFileBytes: 400 };
+
+  // A spill file of `size` bytes last modified `ageMs` ago
+  const spill = (name: string, size: number, ageMs: number) => {
+    const path = join(dir, name);
+    writeFileSync(path, Buffer.alloc(size, 'x'));
+    const mtime = (Date.now() - ageMs) / 1000;
+    utimesSync(path, mtime, mtime);
+    return path;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-spill-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should delete spill files older than the maximum age', () => {
+    const old = spill('exec-a.out', 10, 120_000);
+    const fresh = spill('exec-b.err', 10, 1_000);
+    const other = spill('notes.txt', 10, 120_000);
+
+    const result = sweepSpillFiles(limits, dir);
+    expect(result.removed).toEqual([old]);
+    expect(result.totalBytes).toBe(10);
+    expect(existsSync(fresh)).toBe(true);
+    expect(existsSync(other)).toBe(true);
+  });
+
+  it('should delete the oldest spill files while over the total quota', () => {
+    const oldest = spill('exec-a.out', 500, 3_000);
+    const middle = spill('exec-b.out', 500, 2_000);
+    const newest = spill('exec-c.out', 500, 1_000);
+
+    const result = sweepSpillFiles(limits, dir);
+    expect(result.removed).toEqual([oldest]);
+    expect(result.totalBytes).toBe(1000);
+    expect(existsSync(middle) && existsSync(newest)).toBe(true);
+  });
+
+  it('should keep files that are still being written', () => {
+    const live = spill('exec-a.out', 10, 120_000);
+    const quota = openSpillQuota(live, limits);
+    expect(sweepSpillFiles(limits, dir).removed).toEqual([]);
+
+    quota.close();
+    expect(sweepSpillFiles(limits, dir).removed).toEqual([live]);
+  });
+
+  it('should keep spills an exec_id or job still serves', () => {
+    const retained = spill('exec-a.out', 600, 3_000);
+    const stderr = spill('exec-a.err', 600, 3_000);
+    const other = spill('exec-b.out', 10, 1_000);
+    retainSpillFiles([retained, stderr]);
+    expect(sweepSpillFiles(limits, dir, Date.now() + 120_000).removed).toEqual([other]);
+
+    releaseSpillFiles([retained, stderr]);
+    expect(sweepSpillFiles(limits, dir).removed.sort()).toEqual([stderr, retained].sort());
+  });
+
+  it('should measure the directory again once a compressed file is closed', () => {
+    const path = join(dir, 'exec-a.out');
+    const quota = openSpillQuota(path, limits);
+    expect(quota.admit(Buffer.alloc(400)).length).toBe(400);
+    writeFileSync(path, Buffer.alloc(40));
+    quota.close();
+
+    // Only the 40 bytes on disk count against the quota, not the 400 admitted
+    const other = openSpillQuota(join(dir, 'exec-b.out'), limits);
+    expect(other.admit(Buffer.alloc(400)).length).toBe(400);
+    const third = openSpillQuota(join(dir, 'exec-c.out'), limits);
+    expect(third.admit(Buffer.alloc(400)).length).toBe(400);
+    other.close();
+    third.close();
+  });
+
+  it('should keep pinned spills and delete a spill\'s files together', () => {
+    const pinned = spill('exec-a.out', 10, 120_000);
+    writeFileSync(join(dir, 'exec-a.json'), JSON.stringify({ spill_id: 'exec-a', pinned: true }));
+    const stdout = spill('exec-b.out', 10, 120_000);
+    const stderr = spill('exec-b.err', 10, 120_000);
+    writeFileSync(join(dir, 'exec-b.json'), JSON.stringify({ spill_id: 'exec-b', pinned: false }));
+
+    const result = sweepSpillFiles(limits, dir, Date.now() + 120_000);
+    expect(result.removed.sort()).toEqual([stderr, join(dir, 'exec-b.json'), stdout].sort());
+    expect(existsSync(pinned)).toBe(true);
+  });
+
+  it('should cut output off at the per-file cap', () => {
+    const quota = openSpillQuota(join(dir, 'exec-a.out'), limits);
+    expect(quota.admit(Buffer.alloc(300)).length).toBe(300);
+    expect(quota.truncated).toBe(false);
+    expect(quota.admit(Buffer.alloc(300)).length).toBe(100);
+    expect(quota.truncated).toBe(true);
+    expect(quota.admit(Buffer.alloc(1)).length).toBe(0);
+    expect(quota.written).toBe(400);
+    quota.close();
+  });
+
+  it('should make room by sweeping, then cut output off at the total quota', () => {
+    const old = spill('exec-old.out', 500, 3_000);
+    const live = spill('exec-live.out', 400, 2_000);
+    const liveQuota = openSpillQuota(live, limits);
+
+    // The finished file is deleted to make room; the live one is not
+    const path = join(dir, 'exec-a.out');
+    const quota = openSpillQuota(path, limits);
+    const admitted = quota.admit(Buffer.alloc(400));
+    expect(admitted.length).toBe(400);
+    appendFileSync(path, admitted);
+    expect(existsSync(old)).toBe(false);
+    expect(existsSync(live)).toBe(true);
+
+    const other = openSpillQuota(join(dir, 'exec-b.out'), limits);
+    expect(other.admit(Buffer.alloc(300)).length).toBe(200);
+    expect(other.truncated).toBe(true);
+
+    liveQuota.close();
+    quota.close();
+    other.close();
+  });
+});
@@ -0,0 +1,243 @@
+import { existsSync, readdirSync, statSync, unlinkSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { SPILL_FILE_PATTERN, spillDirectory, spillIdOf, spillPaths, isSpillPinned } from "./spill-catalog.js";
+import { forgetLineIndex } from "./line-index.js";
+import { forgetFrameIndex } from "./spill-frames.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Spill Retention ---------- */
+
+// How often the server sweeps the spill directory
+export const SPILL_SWEEP_INTERVAL_MS = 5 * 60_000;
+
+const NOTHING = Buffer.alloc(0);
+
+export type SpillLimits = {
+  maxAgeMs: number;        // spill files not modified for this long are deleted
+  maxTotalBytes: number;   // disk quota for every spill file together
+  maxFileBytes: number;    // cap on the output of a single stream, before compression
+};
+
+export type SpillSweepResult = {
+  removed: string[];       // deleted files, oldest first
+  totalBytes: number;      // size of the spill files left behind
+};
+
+export type SpillQuota = {
+  admit(chunk: Buffer): Buffer;   // the part of chunk that may be written; empty once truncated
+  readonly written: number;
+  readonly truncated: boolean;    // output was dropped because a limit was reached
+  close(): void;                  // writing is done; the sweeper may delete the file from now on
+};
+
+export type SpillSweeper = {
+  close(): void;
+};
+
+// Files a command is still writing to; sweeps never delete them
+const liveFiles = new Set<string>();
+// Files a stored exec_id or a job still serves; sweeps never delete them either
+const retainedFiles = new Set<string>();
+// Bytes on disk per directory as of the last sweep, plus what has been admitted since.
+// Admitted output is counted uncompressed until its file is closed and can be measured.
+const directoryBytes = new Map<string, number>();
+// Called when spill files are published or deleted (resources/list_changed)
+const changeListeners = new Set<() => void>();
+let changePending = false;
+
+/**
+ * Subscribe to changes in the set of spill files. Bursts of changes are coalesced
+ * into one call. Returns a function that unsubscribes.
+ */
+export function onSpillFilesChanged(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+/**
+ * Tell subscribers that spill files were published (stored exec, new job) or deleted
+ */
+export function notifySpillFilesChanged(): void {
+  if (changePending || changeListeners.size === 0) return;
+  changePending = true;
+  setImmediate(() => {
+    changePending = false;
+    for (const listener of changeListeners) listener();
+  });
+}
+
+/**
+ * Keep spill files from being swept while an exec_id or job serves them. The owner
+ * releases them before deleting the files itself.
+ */
+export function retainSpillFiles(paths: Array<string | undefined>): void {
+  for (const path of paths) {
+    if (path) retainedFiles.add(path);
+  }
+}
+
+export function releaseSpillFiles(paths: Array<string | undefined>): void {
+  for (const path of paths) {
+    if (path) retainedFiles.delete(path);
+  }
+}
+
+/**
+ * Delete spills older than maxAgeMs, then the oldest remaining ones while the
+ * directory is over maxTotalBytes (less neededBytes, to make room for a write).
+ * Sizes are bytes on disk. A spill's files go together. Spills that are pinned,
+ * still being written or retained for an exec_id or job are kept.
+ */
+export function sweepSpillFiles(
+  limits: SpillLimits,
+  directory: string = spillDirectory(),
+  now: number = Date.now(),
+  neededBytes: number = 0
+): SpillSweepResult {
+  let names: string[];
+  try {
+    names = readdirSync(directory);
+  } catch {
+    directoryBytes.set(directory, 0);
+    return { removed: [], totalBytes: 0 };
+  }
+
+  const spills = new Map<string, { id: string; paths: string[]; size: number; mtimeMs: number }>();
+  for (const name of names) {
+    const match = SPILL_FILE_PATTERN.exec(name);
+    if (!match) continue;
+    const path = join(directory, name);
+    try {
+      const stats = statSync(path);
+      if (!stats.isFile()) continue;
+      const spill = spills.get(match[1]!) ?? { id: match[1]!, paths: [], size: 0, mtimeMs: 0 };
+      spill.paths.push(path);
+      spill.size += stats.size;
+      spill.mtimeMs = Math.max(spill.mtimeMs, stats.mtimeMs);
+      spills.set(match[1]!, spill);
+    } catch {
+      // Deleted since readdir
+    }
+  }
+  const ordered = [...spills.values()].sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+  let totalBytes = ordered.reduce((sum, spill) => sum + spill.size, 0);
+  const removed: string[] = [];
+  for (const spill of ordered) {
+    if (now - spill.mtimeMs <= limits.maxAgeMs && totalBytes + neededBytes <= limits.maxTotalBytes) continue;
+    // A spill's sidecar is written before its output files exist
+    const { stdout, stderr } = spillPaths(directory, spill.id);
+    if ([stdout, stderr].some(path => liveFiles.has(path) || retainedFiles.has(path)) || isSpillPinned(spill.paths[0]!)) continue;
+    try {
+      removed.push(...deleteSpillFiles(spill.paths[0]!));
+    } catch (e) {
+      debugLog("Failed to delete spill", { path: spill.paths[0], error: e });
+    }
+    totalBytes -= spill.size;
+  }
+
+  directoryBytes.set(directory, totalBytes);
+  if (removed.length > 0) {
+    debugLog("Swept spill files", { directory, removed: removed.length, totalBytes });
+    notifySpillFilesChanged();
+  }
+  return { removed, totalBytes };
+}
+
+/**
+ * Whether a command is still writing to a spill file
+ */
+export function isSpillLive(filePath: string): boolean {
+  return liveFiles.has(filePath);
+}
+
+/**
+ * Start tracking writes to a spill file. Every chunk goes through admit(), which
+ * cuts it off at the per-file cap or the total quota; once that happens the rest
+ * of the command's output for this file is dropped.
+ */
+export function openSpillQuota(filePath: string, limits: SpillLimits): SpillQuota {
+  const directory = dirname(filePath);
+  let written = 0;
+  let truncated = false;
+  liveFiles.add(filePath);
+
+  return {
+    get written() { return written; },
+    get truncated() { return truncated; },
+    admit(chunk: Buffer): Buffer {
+      if (truncated || chunk.length === 0) return truncated ? NOTHING : chunk;
+      const wanted = Math.min(chunk.length, Math.max(0, limits.maxFileBytes - written));
+      const granted = wanted > 0 ? reserveBytes(directory, wanted, limits) : 0;
+      if (granted < chunk.length) {
+        truncated = true;
+        debugLog("Spill file reached its quota, dropping further output", { path: filePath, written: written + granted });
+      }
+      written += granted;
+      return chunk.subarray(0, granted);
+    },
+    close(): void {
+      liveFiles.delete(filePath);
+      // A compressed file takes up less than was reserved for it; the next
+      // reservation measures the directory again
+      let onDisk = 0;
+      try {
+        onDisk = statSync(filePath).size;
+      } catch {
+        // Nothing was written
+      }
+      if (onDisk !== written) directoryBytes.delete(directory);
+    },
+  };
+}
+
+/**
+ * Reserve up to `bytes` of the directory's quota. When the quota looks exhausted
+ * the directory is swept first, since files deleted since the last sweep are not
+ * counted yet and old files may make room. Returns the number of bytes granted.
+ */
+function reserveBytes(directory: string, bytes: number, limits: SpillLimits): number {
+  let used = directoryBytes.get(directory);
+  if (used === undefined || used + bytes > limits.maxTotalBytes) {
+    used = sweepSpillFiles(limits, directory, Date.now(), bytes).totalBytes;
+  }
+  const granted = Math.max(0, Math.min(bytes, limits.maxTotalBytes - used));
+  directoryBytes.set(directory, used + granted);
+  return granted;
+}
+
+/**
+ * Sweep the spill directory now and then every SPILL_SWEEP_INTERVAL_MS. Limits are
+ * read on every sweep so config reloads apply.
+ */
+export function startSpillSweeper(getLimits: () => SpillLimits): SpillSweeper {
+  const sweep = () => {
+    try {
+      sweepSpillFiles(getLimits());
+    } catch (e) {
+      debugLog("Spill sweep failed", e);
+    }
+  };
+  sweep();
+  const timer = setInterval(sweep, SPILL_SWEEP_INTERVAL_MS);
+  timer.unref();
+  return { close: () => clearInterval(timer) };
+}
+
+/**
+ * Delete every file of the spill a file belongs to, pinned or not. Returns the
+ * paths that were deleted.
+ */
+export function deleteSpillFiles(filePath: string): string[] {
+  const paths = spillPaths(dirname(filePath), spillIdOf(filePath));
+  const deleted: string[] = [];
+  for (const path of [paths.stdout, paths.stderr, paths.meta, paths.chunks]) {
+    if (!existsSync(path)) continue;
+    unlinkSync(path);
+    forgetLineIndex(path);
+    forgetFrameIndex(path);
+    deleted.push(path);
+  }
+  debugLog("Deleted spill", { spillId: spillIdOf(filePath), deleted: deleted.length });
+  return deleted;
+}
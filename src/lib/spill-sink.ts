@@ -0,0 +1,43 @@
+import { type Readable, finished } from "node:stream";
+import { type SpillCompression, openSpillWriter } from "./spill-frames.js";
+import { debugLog } from "./debug.js";
+
+/** ---------- Spill Sink ---------- */
+
+export type SpillSink = {
+  write(chunk: Buffer): void;
+  close(): Promise<boolean>;    // resolves once the file is complete; false if nothing was spilled
+};
+
+/**
+ * Spill a child's output streams through a write stream. When the file falls behind,
+ * the child's pipes are paused until the writer drains, so a fast command neither blocks
+ * the event loop on disk writes nor piles its output up in memory.
+ */
+export function openSpillSink(filePath: string, compression: SpillCompression, sources: Readable[], stream: string): SpillSink {
+  const writer = openSpillWriter(filePath, compression);
+  let written = false;
+  let failed = false;
+  const resume = () => sources.forEach((source) => source.resume());
+  writer.on("error", (e) => {
+    debugLog(`Failed to write to ${stream} spill file`, e);
+    failed = true;
+    resume();
+  });
+  writer.on("drain", resume);
+
+  return {
+    write(chunk: Buffer) {
+      if (failed) return;
+      written = true;
+      if (!writer.write(chunk)) sources.forEach((source) => source.pause());
+    },
+    close() {
+      return new Promise<boolean>((resolve) => {
+        if (failed) return resolve(false);
+        writer.end();
+        finished(writer, (error) => resolve(written && !failed && !error));
+      });
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { type ChildProcessByStdio, type SpawnOptions, spawn } from "node:child_process";
+import { closeSync, existsSync, openSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import type { Readable } from "node:stream";
+import { spillUriToPath, getFileSizeSync } from "./pagination.js";
+import { isCompressedSpill, readSpillFileSync } from "./spill-frames.js";
+
+/** ---------- Stdin for Commands ---------- */
+
+export type StdinInput = {
+  text?: string;     // UTF-8 text
+  base64?: string;   // raw bytes, base64-encoded
+  uri?: string;      // an existing spill file (mcp://tmp/...)
+};
+
+export type StdinSource =
+  | { kind: "buffer"; data: Buffer; bytes: number }
+  | { kind: "file"; path: string; bytes: number };
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Validate a shell_exec stdin parameter (exactly one of text, base64 or uri) against
+ * the size limit. Throws with a client-facing message if it is invalid.
+ */
+export function resolveStdin(stdin: unknown, maxBytes: number): StdinSource {
+  if (!stdin || typeof stdin !== "object" || Array.isArray(stdin)) {
+    throw new Error("stdin must be an object with one of 'text', 'base64' or 'uri'");
+  }
+  const input = stdin as StdinInput;
+  const given = (["text", "base64", "uri"] as const).filter(k => input[k] !== undefined);
+  if (given.length !== 1) {
+    throw new Error("stdin must have exactly one of 'text', 'base64' or 'uri'");
+  }
+
+  let source: StdinSource;
+  if (input.text !== undefined) {
+    if (typeof input.text !== "string") throw new Error("stdin.text must be a string");
+    const data = Buffer.from(input.text, "utf8");
+    source = { kind: "buffer", data, bytes: data.length };
+  } else if (input.base64 !== undefined) {
+    const encoded = typeof input.base64 === "string" ? input.base64.replace(/\s+/g, "") : undefined;
+    if (encoded === undefined || encoded.length % 4 !== 0 || !BASE64_PATTERN.test(encoded)) {
+      throw new Error("stdin.base64 must be a valid base64 string");
+    }
+    const data = Buffer.from(encoded, "base64");
+    source = { kind: "buffer", data, bytes: data.length };
+  } else {
+    if (typeof input.uri !== "string") throw new Error("stdin.uri must be a string");
+    const path = spillUriToPath(input.uri);
+    if (!existsSync(path)) {
+      throw new Error(`Spill file not found for stdin: ${input.uri}`);
+    }
+    source = { kind: "file", path, bytes: getFileSizeSync(path) };
+    // A compressed spill file cannot be the child's stdin fd; feed its output instead
+    if (isCompressedSpill(path) && source.bytes <= maxBytes) {
+      const data = readSpillFileSync(path);
+      source = { kind: "buffer", data, bytes: data.length };
+    }
+  }
+
+  if (source.bytes > maxBytes) {
+    throw new Error(`stdin is ${source.bytes} bytes, over the ${maxBytes} byte limit (limits.max_stdin_bytes)`);
+  }
+  return source;
+}
+
+/**
+ * Load a resolved stdin source into memory (bounded by the limit it was resolved against)
+ */
+export function readStdinSource(source: StdinSource): Buffer {
+  return source.kind === "buffer" ? source.data : readSpillFileSync(source.path).subarray(0, source.bytes);
+}
+
+/**
+ * Open stdin for a child: a read-only fd on the spill file, or on an unlinked temp
+ * file holding the buffer. A file rather than a "pipe" matters: Node pipes are Unix
+ * sockets, and bash sources ~/.bashrc when its stdin is a socket.
+ */
+function openStdin(source: StdinSource | undefined): number | "ignore" {
+  if (!source) return "ignore";
+  if (source.kind === "file") return openSync(source.path, "r");
+
+  const path = join(tmpdir(), `shemcp-stdin-${randomUUID()}`);
+  writeFileSync(path, source.data, { mode: 0o600 });
+  try {
+    return openSync(path, "r");
+  } finally {
+    unlinkSync(path);
+  }
+}
+
+/**
+ * Spawn a command with stdout/stderr piped and stdin fed from source, or
+ * /dev/null when there is none.
+ */
+export function spawnWithStdin(
+  cmd: string,
+  args: string[],
+  options: Omit<SpawnOptions, "stdio">,
+  source: StdinSource | undefined
+): ChildProcessByStdio<null, Readable, Readable> {
+  const stdin = openStdin(source);
+  try {
+    // The child gets its own copy of the fd, so ours can be closed once it is spawned
+    return spawn(cmd, args, { ...options, stdio: [stdin, "pipe", "pipe"] }) as ChildProcessByStdio<null, Readable, Readable>;
+  } finally {
+    if (typeof stdin === "number") closeSync(stdin);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { summarizeStream, previewStream, describeOutput, type SummarySettings } from './summary.js';
+
+describe('output summary', () => {
+  let dir: string;
+  let file: string;
+  const settings: SummarySettings = {
+    errorPatterns: [/\berror\b/i],
+    warningPatterns: [/\bwarning\b/i],
+    maxLineNumbers: 2,
+    previewBytes: 30
+  };
+  const log = [
+    'compiling a.ts',
+    'warning: unused variable',
+    'compiling b.ts',
+    'ERROR: type mismatch',
+    'error: missing import',
+    'Warning and error on one line',
+    'done'
+  ].join('\n') + '\n';
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shemcp-summary-'));
+    file = join(dir, 'exec-test.out');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should count error and warning lines and list the first ones', async () => {
+    writeFileSync(file, log);
+    expect(await summarizeStream(file, log.length, settings)).toEqual({
+      total_lines: 7,
+      error_count: 3,
+      error_lines: [4, 5],
+      warning_count: 1,
+      warning_lines: [2],
+      scanned_from_line: 1
+    });
+  });
+
+  it('should cut previews at line boundaries', async () => {
+    writeFileSync(file, log);
+    const head = await previewStream(file, log.length, 'head', 30);
+    expect(head).toEqual({ text: 'compiling a.ts\n', bytes_start: 0, bytes_end: 15, line: 1 });
+
+    const tail = await previewStream(file, log.length, 'tail', 30);
+    expect(tail!.text).toBe('done\n');
+    expect(tail!.line).toBe(7);
+    expect(tail!.bytes_end).toBe(log.length);
+  });
+
+  it('should leave out binary streams', async () => {
+    writeFileSync(file, Buffer.from([0, 1, 2, 3, 10, 0]));
+    const overview = await describeOutput({ stdout: { path: file, bytes: 6 } }, settings);
+    expect(overview).toEqual({ summary: {}, headPreview: {}, tailPreview: {} });
+  });
+});
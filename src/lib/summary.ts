@@ -0,0 +1,131 @@
+import { readFileBytes } from "./pagination.js";
+import { getLineIndex } from "./line-index.js";
+import { readLines } from "./grep.js";
+import { isBinary, utf8SafeLength } from "./encoding.js";
+
+/** ---------- Output Summary and Previews ---------- */
+
+// Output with more pages comes with a summary of each stream and previews of its ends,
+// so a client can jump to the lines that matter with a 'lines' cursor. Failures are
+// reported at the end of a build or test run, so only the last MAX_SUMMARY_SCAN_BYTES
+// of a stream are matched against the patterns.
+export const MAX_SUMMARY_SCAN_BYTES = 64 * 1024 * 1024;
+
+export type SummarySettings = {
+  errorPatterns: RegExp[];      // a line matching one of these counts as an error
+  warningPatterns: RegExp[];    // ...and otherwise as a warning if it matches one of these
+  maxLineNumbers: number;       // line numbers listed per kind
+  previewBytes: number;         // size of the head and tail previews; 0 disables them
+};
+
+export type StreamSummary = {
+  total_lines: number;
+  error_count: number;
+  error_lines: number[];        // first matching lines, 1-based
+  warning_count: number;
+  warning_lines: number[];
+  scanned_from_line: number;    // 1 unless the stream is over MAX_SUMMARY_SCAN_BYTES
+};
+
+export type OutputPreview = {
+  text: string;
+  bytes_start: number;
+  bytes_end: number;
+  line: number;                 // line the preview starts at
+};
+
+/**
+ * Count the lines of a spill file and the lines matching the error and warning patterns
+ */
+export async function summarizeStream(filePath: string, totalBytes: number, settings: SummarySettings): Promise<StreamSummary> {
+  const index = await getLineIndex(filePath);
+  const firstLine = index.lineAt(Math.max(0, totalBytes - MAX_SUMMARY_SCAN_BYTES));
+  const summary: StreamSummary = {
+    total_lines: index.lineCount,
+    error_count: 0,
+    error_lines: [],
+    warning_count: 0,
+    warning_lines: [],
+    scanned_from_line: firstLine,
+  };
+
+  let lineNumber = firstLine;
+  for await (const { text } of readLines(filePath, index.lineStart(firstLine))) {
+    if (settings.errorPatterns.some(pattern => pattern.test(text))) {
+      if (summary.error_count++ < settings.maxLineNumbers) summary.error_lines.push(lineNumber);
+    } else if (settings.warningPatterns.some(pattern => pattern.test(text))) {
+      if (summary.warning_count++ < settings.maxLineNumbers) summary.warning_lines.push(lineNumber);
+    }
+    lineNumber++;
+  }
+  return summary;
+}
+
+/**
+ * Read up to maxBytes from the start ("head") or end ("tail") of a spill file, cut at
+ * line boundaries when the stream has any. Returns undefined for binary output.
+ */
+export async function previewStream(
+  filePath: string,
+  totalBytes: number,
+  end: "head" | "tail",
+  maxBytes: number
+): Promise<OutputPreview | undefined> {
+  let start = end === "tail" ? Math.max(0, totalBytes - maxBytes) : 0;
+  let stop = Math.min(start + maxBytes, totalBytes);
+  const data = await readFileBytes(filePath, start, stop);
+  if (isBinary(data)) return undefined;
+
+  let from = 0;
+  let to = data.length;
+  if (end === "tail" && start > 0) {
+    // Start after the first newline, or at least on a character boundary
+    const newline = data.indexOf(10);
+    if (newline !== -1 && newline + 1 < data.length) {
+      from = newline + 1;
+    } else {
+      while (from < data.length && (data[from]! & 0xc0) === 0x80) from++;
+    }
+  }
+  if (end === "head" && stop < totalBytes) {
+    const newline = data.lastIndexOf(10);
+    to = newline > 0 ? newline + 1 : utf8SafeLength(data);
+  }
+  start += from;
+  stop = start + (to - from);
+
+  const text = data.subarray(from, to).toString("utf8");
+  const index = await getLineIndex(filePath);
+  return { text, bytes_start: start, bytes_end: stop, line: index.lineAt(start) };
+}
+
+export type OutputOverview = {
+  summary: { stdout?: StreamSummary; stderr?: StreamSummary };
+  headPreview: { stdout?: OutputPreview; stderr?: OutputPreview };
+  tailPreview: { stdout?: OutputPreview; stderr?: OutputPreview };
+};
+
+/**
+ * Summarize both spill files of a command and preview their ends. Binary streams
+ * are left out.
+ */
+export async function describeOutput(
+  streams: { stdout?: { path: string; bytes: number }; stderr?: { path: string; bytes: number } },
+  settings: SummarySettings
+): Promise<OutputOverview> {
+  const overview: OutputOverview = { summary: {}, headPreview: {}, tailPreview: {} };
+  for (const name of ["stdout", "stderr"] as const) {
+    const stream = streams[name];
+    if (!stream || stream.bytes === 0) continue;
+    // The head also tells whether the stream is text
+    const head = await previewStream(stream.path, stream.bytes, "head", Math.max(settings.previewBytes, 1));
+    if (!head) continue;
+    overview.summary[name] = await summarizeStream(stream.path, stream.bytes, settings);
+    if (settings.previewBytes > 0) {
+      overview.headPreview[name] = head;
+      const tail = await previewStream(stream.path, stream.bytes, "tail", settings.previewBytes);
+      if (tail) overview.tailPreview[name] = tail;
+    }
+  }
+  return overview;
+}
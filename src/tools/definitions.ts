@@ -1,10 +1,46 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config/index.js";
+
+// Shared by shell_exec and read_file_chunk
+const cursorTypeProperty = {
+  type: "string",
+  description: "'bytes' starts at a byte offset, 'lines' at a 1-based line, 'tail' a number of lines or bytes before the end of the output.",
+  enum: ["bytes", "lines", "tail"],
+  default: "bytes"
+};
+const cursorPositionProperties = {
+  line: { type: "number", minimum: 1, description: "For 'lines': line to start at. For 'bytes': line number at offset, set on next_cursor of filtered pages; pass it back unchanged." },
+  lines: { type: "number", minimum: 0, description: "For 'tail': start this many lines before the end" },
+  bytes: { type: "number", minimum: 0, description: "For 'tail': start this many bytes before the end" }
+};
+
+const filterProperty = {
+  type: "object",
+  description: "Return only lines matching a regex (grep), with their line numbers and byte offsets. The spill file is scanned server-side and next_cursor points at the next match. One call scans at most 16MB or about a second of output; if it stops there, next_cursor points at the first unscanned line, possibly with no matches on the page. For shell_exec, applies to stdout.",
+  properties: {
+    pattern: { type: "string", minLength: 1, description: "JavaScript regular expression (at most 1000 characters) matched against each line, or the first 64K characters of longer lines (e.g., 'error TS\\d+')" },
+    invert: { type: "boolean", default: false, description: "Return lines that do not match" },
+    context_lines: { type: "number", minimum: 0, maximum: 20, default: 0, description: "Lines of context before and after each match" },
+    max_matches: { type: "number", minimum: 1, maximum: 1000, default: 100, description: "Maximum matches per page" }
+  },
+  required: ["pattern"]
+};
+
+const chunkCleanupProperties = {
+  ansi_strip: { type: "boolean", default: true, description: "Remove ANSI escape sequences (colors, cursor movement) from returned text. Byte offsets still refer to the raw output." },
+  normalize_newlines: { type: "boolean", default: true, description: "Turn CRLF into LF and collapse carriage-return progress redraws to their final text" }
+};
+
+const jsonPathProperty = {
+  type: "string",
+  description: "JSONPath expression evaluated server-side against the whole JSON output; only the matches are returned, as a JSON array paged by its own cursor. Supports $, .name, ['name'], [0], [-1], [start:end:step], *, .. and unions like [0,2]. Cannot be combined with filter. Example: '$.items[*].metadata.name'"
+};
 
 /** ---------- Tool definitions ---------- */
 export const tools: Tool[] = [
   {
     name: "shell_exec",
-    description: "Execute an allow-listed command within the sandbox (git project root). Optional cwd must be a relative path from the sandbox root, or an absolute path within the sandbox or a valid git worktree. Supports pagination via limit_bytes and next_cursor (page and cursor are required for pagination). Automatically spills large outputs to file with spill_uri.",
+    description: "Execute an allow-listed command within the sandbox (git project root). Commands matching ask rules run only after the user approves them in an elicitation prompt. Optional cwd must be a relative path from the sandbox root, or an absolute path within the sandbox or a valid git worktree. Supports pagination via limit_bytes and next_cursor (page and cursor are required for pagination). When more pages exist the response includes an exec_id; pass it back with next_cursor (or stderr_next_cursor as page.stderr_cursor) to read later pages from the stored output without re-running the command. Such responses also carry a summary (line, error and warning counts with the first matching line numbers, for a 'lines' cursor) and a tail_preview of stdout and stderr. Automatically spills large outputs to file with spill_uri. Optional stdin feeds inline text, base64 bytes or a spill_uri into the command.",
     inputSchema: {
       type: "object",
       properties: {
@@ -16,29 +52,49 @@ export const tools: Tool[] = [
         // New optional per-request overrides
         timeout_seconds: { type: "number", minimum: 1, maximum: 600, description: "Command timeout in seconds (1-600, will be clamped to policy limits)" },
         max_output_bytes: { type: "number", minimum: 1000, maximum: 10000000, description: "Maximum output size in bytes (1000-10M, will be clamped to policy limits)" },
+        tty: { type: "boolean", default: false, description: "Run on a pseudo-terminal for programs that need one (prompts, REPLs, colored progress). stdout and stderr are merged and ANSI escape sequences are stripped." },
+        tty_rows: { type: "number", minimum: 1, maximum: 1000, default: 24, description: "Terminal rows when tty is true" },
+        tty_cols: { type: "number", minimum: 1, maximum: 1000, default: 80, description: "Terminal columns when tty is true" },
+        merge_streams: { type: "boolean", default: false, description: "Capture stdout and stderr as one stream in the order they were written. stdout_chunk, next_cursor and spill_uri then cover both; read_file_chunk with format 'records' tells which stream each chunk came from and when. Cannot be combined with tty, which merges them already." },
+        stdin: {
+          type: "object",
+          description: "Data to stream into the command's standard input. Give exactly one of text, base64 or uri. Size is capped by limits.max_stdin_bytes. Without stdin the command reads EOF.",
+          properties: {
+            text: { type: "string", description: "UTF-8 text" },
+            base64: { type: "string", description: "Raw bytes, base64-encoded" },
+            uri: { type: "string", description: "spill_uri of an earlier command's output (mcp://tmp/...)" }
+          },
+          additionalProperties: false
+        },
+        exec_id: { type: "string", description: "exec_id returned by the first page. Later pages are served from the stored output; the command is not run again." },
         page: {
           type: "object",
           description: "Pagination configuration.  Pagination is always on and hence a required attribute.",
           properties: {
             cursor: {
               type: "object",
-              description: "Position marker indicating where to start reading from the output stream. 0 for first request, then use next_cursor from prior response.",
+              description: "Position marker indicating where to start reading from the output stream. 0 for first request, then use next_cursor from prior response together with exec_id.",
               properties: {
-                cursor_type: {
-                  type: "string",
-                  description: "Type of cursor positioning. Currently supports 'bytes' for byte-based positioning.",
-                  enum: ["bytes"],
-                  default: "bytes"
-                },
+                cursor_type: cursorTypeProperty,
                 offset: {
                   type: "number",
                   minimum: 0,
                   description: "Byte offset from the start of the output stream. For 'bytes' cursor_type, this represents the byte position to start reading from.",
                   default: 0
-                }
+                },
+                ...cursorPositionProperties
               },
               default: { cursor_type: "bytes", offset: 0 }
             },
+            stderr_cursor: {
+              type: "object",
+              description: "Position marker for stderr, used together with exec_id. Pass stderr_next_cursor from a prior response.",
+              properties: {
+                cursor_type: cursorTypeProperty,
+                offset: { type: "number", minimum: 0, description: "Byte offset from the start of the stderr stream." },
+                ...cursorPositionProperties
+              }
+            },
             limit_bytes: {
               type: "number",
               minimum: 1,
@@ -50,18 +106,21 @@ export const tools: Tool[] = [
               type: "number",
               minimum: 1,
               maximum: 100000,
-              description: "Maximum number of lines to return in this page. The command stops on whichever limit (bytes or lines) is hit first. Useful for text files where line boundaries matter."
+              description: "Maximum number of lines to return in this page. The page stops on whichever limit (bytes or lines) is hit first and ends on a newline. Useful for text files where line boundaries matter."
             }
           }
         },
-        on_large_output: { type: "string", enum: ["spill", "truncate", "error"], description: "How to handle large outputs", default: "spill" }
+        on_large_output: { type: "string", enum: ["spill", "truncate", "error"], description: "How to handle large outputs", default: "spill" },
+        filter: filterProperty,
+        json_path: jsonPathProperty,
+        ...chunkCleanupProperties
       },
       required: ["cmd", "page"]
     }
   },
   {
     name: "read_file_chunk",
-    description: "Reads paginated data from a spilled file (stdout or stderr). Accepts cursor and limit_bytes to safely stream contents.",
+    description: "Reads paginated data from a spilled file (stdout or stderr). Accepts cursor and limit_bytes to safely stream contents. Merged output (merge_streams) can be read as records tagged with their stream and arrival time.",
     inputSchema: {
       type: "object",
       properties: {
@@ -70,32 +129,218 @@ export const tools: Tool[] = [
           type: "object",
           description: "Position marker indicating where to start reading from the file.",
           properties: {
-            cursor_type: {
-              type: "string",
-              description: "Type of cursor positioning. Currently supports 'bytes' for byte-based positioning.",
-              enum: ["bytes"],
-              default: "bytes"
-            },
+            cursor_type: cursorTypeProperty,
             offset: {
               type: "number",
               minimum: 0,
               description: "Byte offset from the start of the file.",
               default: 0
-            }
+            },
+            ...cursorPositionProperties
           },
           default: { cursor_type: "bytes", offset: 0 }
         },
-        limit_bytes: { type: "number", minimum: 1, maximum: 40000, description: "Maximum bytes to read", default: 40000 }
+        limit_bytes: { type: "number", minimum: 1, maximum: 40000, description: "Maximum bytes to read", default: 40000 },
+        limit_lines: { type: "number", minimum: 1, maximum: 100000, description: "Maximum lines to read. The page ends on a newline." },
+        filter: filterProperty,
+        json_path: jsonPathProperty,
+        format: { type: "string", enum: ["text", "records"], default: "text", description: "For merged output (shell_exec with merge_streams): 'text' returns the page as data; 'records' splits it into the chunks it arrived in, each with its stream, t_ms since the command started, byte range and text. Cannot be combined with filter or json_path." },
+        ...chunkCleanupProperties
       },
       required: ["uri"]
     }
   },
+  {
+    name: "spill_list",
+    description: "List spill files in ~/.shemcp/tmp, newest first, with the command that produced each (cmdline, cwd, exit code), stdout/stderr sizes, creation time and whether it is pinned or still being written.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pinned_only: { type: "boolean", default: false, description: "Only list pinned spills" }
+      }
+    }
+  },
+  {
+    name: "spill_stat",
+    description: "Describe one spill: its command, cwd, exit code, stdout/stderr sizes and line count, MIME type, creation time, pin and exec_id or job_id.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uri: { type: "string", description: "spill_uri or stderr_spill_uri of the spill (e.g., 'mcp://tmp/exec-abc123.out')" }
+      },
+      required: ["uri"]
+    }
+  },
+  {
+    name: "spill_delete",
+    description: "Delete a spill's stdout, stderr, chunk index and metadata now, even if it is pinned. Its exec_id stops working. Output a running command is still writing cannot be deleted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uri: { type: "string", description: "spill_uri or stderr_spill_uri of the spill" }
+      },
+      required: ["uri"]
+    }
+  },
+  {
+    name: "spill_pin",
+    description: "Pin a spill so it is kept after its last page is read, after its exec_id or job expires, and by the retention sweeper, until spill_delete. Pass pinned: false to unpin.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        uri: { type: "string", description: "spill_uri or stderr_spill_uri of the spill" },
+        pinned: { type: "boolean", default: true, description: "false removes the pin" }
+      },
+      required: ["uri"]
+    }
+  },
+  {
+    name: "shell_spawn",
+    description: "Start an allow-listed command as a background job within the sandbox (same policy and cwd rules as shell_exec). Returns immediately with a job_id; stdout and stderr stream into spill files readable with read_file_chunk. Use for long builds and dev servers.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cmd: { type: "string", minLength: 1, description: "The command to execute (e.g., 'npm', 'make')" },
+        args: { type: "array", items: { type: "string" }, default: [], description: "Command arguments as an array of strings" },
+        cwd: { type: "string", description: "Relative path from sandbox root, or absolute path within the sandbox or a valid git worktree" },
+        timeout_seconds: { type: "number", minimum: 1, description: "Kill the job after this many seconds. Omit to let it run until it exits or is killed." },
+        tty: { type: "boolean", default: false, description: "Run on a pseudo-terminal for programs that need one (prompts, REPLs, colored progress). stdout and stderr are merged and ANSI escape sequences are stripped. Keystrokes sent with shell_job_input are not checked against the command policy." },
+        tty_rows: { type: "number", minimum: 1, maximum: 1000, default: 24, description: "Terminal rows when tty is true" },
+        tty_cols: { type: "number", minimum: 1, maximum: 1000, default: 80, description: "Terminal columns when tty is true" }
+      },
+      required: ["cmd"]
+    }
+  },
+  {
+    name: "shell_job_status",
+    description: "Get the state, exit code and a tail of stdout/stderr for a background job started with shell_spawn.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: { type: "string", description: "job_id returned by shell_spawn" },
+        tail_bytes: { type: "number", minimum: 0, maximum: 40000, description: "Bytes to return from the end of each stream", default: 4000 }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "shell_job_wait",
+    description: "Wait for a background job to exit, up to timeout_seconds. Returns the job status with wait_timed_out: true if it is still running.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: { type: "string", description: "job_id returned by shell_spawn" },
+        timeout_seconds: { type: "number", minimum: 0, maximum: 600, description: "Maximum time to wait", default: 30 },
+        tail_bytes: { type: "number", minimum: 0, maximum: 40000, description: "Bytes to return from the end of each stream", default: 4000 }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "shell_job_input",
+    description: "Send keystrokes to a background job started with tty: true (e.g. answer a prompt with { text: \"y\\r\" }). Input is not checked against the command policy: a REPL or shell escape in the job (python3, vim, less, ...) runs any command it is given, so an allowed tty job grants everything that program can reach.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: { type: "string", description: "job_id returned by shell_spawn" },
+        stdin: {
+          type: "object",
+          description: "Input to send. Give exactly one of text, base64 or uri. Use \\r for Enter and \\u0003 for Ctrl-C.",
+          properties: {
+            text: { type: "string", description: "UTF-8 text" },
+            base64: { type: "string", description: "Raw bytes, base64-encoded" },
+            uri: { type: "string", description: "spill_uri of an earlier command's output (mcp://tmp/...)" }
+          },
+          additionalProperties: false
+        },
+        close_stdin: { type: "boolean", default: false, description: "Close the job's input after sending, so the terminal sees end-of-file" }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "shell_job_kill",
+    description: "Send a signal to a running background job.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        job_id: { type: "string", description: "job_id returned by shell_spawn" },
+        signal: { type: "string", enum: ["SIGTERM", "SIGINT", "SIGHUP", "SIGKILL"], default: "SIGTERM", description: "Signal to send" }
+      },
+      required: ["job_id"]
+    }
+  },
+  {
+    name: "shell_session_open",
+    description: "Open a persistent bash session within the sandbox. cd, export, source (e.g. a virtualenv) and nvm use persist across shell_session_exec calls. Returns a session_id.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cwd: { type: "string", description: "Starting directory: relative path from sandbox root, or absolute path within the sandbox or a valid git worktree" }
+      }
+    }
+  },
+  {
+    name: "shell_session_exec",
+    description: "Run a shell command line in a persistent session and wait for it to finish. Every command in the line is checked against policy as for shell_exec with bash -c, and the session's cwd is re-validated afterwards. A command that times out or leaves the sandbox closes the session.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_id: { type: "string", description: "session_id returned by shell_session_open" },
+        command: { type: "string", minLength: 1, description: "Shell command line to run (e.g., 'cd packages/api && npm test')" },
+        timeout_seconds: { type: "number", minimum: 1, maximum: 600, description: "Command timeout in seconds (1-600, will be clamped to policy limits)" },
+        max_output_bytes: { type: "number", minimum: 1000, maximum: 10000000, description: "Maximum output size per stream in bytes (1000-10M, will be clamped to policy limits)" }
+      },
+      required: ["session_id", "command"]
+    }
+  },
+  {
+    name: "shell_session_close",
+    description: "Close a persistent session, terminating its shell and anything still running in it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_id: { type: "string", description: "session_id returned by shell_session_open" }
+      },
+      required: ["session_id"]
+    }
+  },
   {
     name: "shell_info",
-    description: "Get sandbox information including the sandbox root path, allow/deny command policy, and server version.",
+    description: "Get sandbox information including the sandbox root path, allow/deny/ask command policy, limits, env whitelist, runtime policy changes, background jobs, open sessions, and server version.",
     inputSchema: {
       type: "object",
       properties: {}
     }
+  },
+  {
+    name: "shell_set_policy",
+    description: "Change the command policy for the rest of this session: add or remove allow/deny regex patterns, lower the timeout and output byte cap, or remove env vars from the whitelist. Deny patterns cannot be removed unless the server config allows it, and limits can only be lowered. Every change requires a reason and is listed in shell_info.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reason: { type: "string", description: "Why the change is needed (recorded with the change)" },
+        add_allow: { type: "array", items: { type: "string" }, description: "Regex patterns to add to the allow list" },
+        remove_allow: { type: "array", items: { type: "string" }, description: "Regex patterns to remove from the allow list" },
+        add_deny: { type: "array", items: { type: "string" }, description: "Regex patterns to add to the deny list" },
+        remove_deny: { type: "array", items: { type: "string" }, description: "Regex patterns to remove from the deny list (only if security.allow_runtime_deny_removal is enabled)" },
+        timeout_seconds: { type: "number", minimum: 1, description: "New per-command timeout; must not exceed the current one" },
+        max_output_bytes: { type: "number", minimum: 1000, description: "New per-stream output cap; must not exceed the current one" },
+        remove_env: { type: "array", items: { type: "string" }, description: "Environment variable names to remove from the whitelist" }
+      },
+      required: ["reason"]
+    }
   }
 ];
+
+/**
+ * Tools to advertise under a config. shell_set_policy is hidden when runtime policy
+ * changes are disabled; config reloads compare successive results to decide whether
+ * to send tools/list_changed.
+ */
+export function getTools(config: Config): Tool[] {
+  if (!config.security.allow_runtime_policy_changes) {
+    return tools.filter(t => t.name !== "shell_set_policy");
+  }
+  return tools;
+}